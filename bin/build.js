@@ -1,7 +1,7 @@
 /* eslint-env node */
 /* global process, console */
 import * as esbuild from 'esbuild';
-import { readdirSync } from 'fs';
+import { cpSync, readdirSync } from 'fs';
 import { join, sep } from 'path';
 
 // Config output
@@ -16,6 +16,9 @@ const LIVE_RELOAD = !PRODUCTION;
 const SERVE_PORT = 3000;
 const SERVE_ORIGIN = `http://localhost:${SERVE_PORT}`;
 
+// Config local pages mirroring the Webflow markup, served in dev for the E2E tests
+const FIXTURES_DIRECTORY = 'tests/fixtures';
+
 // Create context
 const context = await esbuild.context({
   bundle: true,
@@ -38,6 +41,7 @@ if (PRODUCTION) {
 
 // Watch and serve files in dev
 else {
+  cpSync(FIXTURES_DIRECTORY, join(BUILD_DIRECTORY, 'fixtures'), { recursive: true });
   await context.watch();
   await context
     .serve({
@@ -69,7 +73,7 @@ function logServedFiles() {
 
   const filesInfo = files
     .map((file) => {
-      if (file.endsWith('.map')) return;
+      if (file.endsWith('.map') || file.endsWith('.html')) return;
 
       // Normalize path and create file location
       const paths = file.split(sep);
@@ -43,7 +43,7 @@ const config: PlaywrightTestConfig = {
     /* Maximum time each action such as `click()` can take. Defaults to 0 (no limit). */
     actionTimeout: 0,
     /* Base URL to use in actions like `await page.goto('/')`. */
-    // baseURL: 'http://localhost:3000',
+    baseURL: 'http://localhost:3000',
 
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
@@ -51,8 +51,15 @@ const config: PlaywrightTestConfig = {
 
   /* Configure projects for major browsers */
   projects: [
+    /* DOM-free tests, e.g. the cost engine. They run in Node only, once. */
+    {
+      name: 'unit',
+      testMatch: 'unit/**/*.spec.ts',
+    },
+
     {
       name: 'chromium',
+      testIgnore: 'unit/**',
       use: {
         ...devices['Desktop Chrome'],
       },
@@ -60,6 +67,7 @@ const config: PlaywrightTestConfig = {
 
     {
       name: 'firefox',
+      testIgnore: 'unit/**',
       use: {
         ...devices['Desktop Firefox'],
       },
@@ -67,6 +75,7 @@ const config: PlaywrightTestConfig = {
 
     {
       name: 'webkit',
+      testIgnore: 'unit/**',
       use: {
         ...devices['Desktop Safari'],
       },
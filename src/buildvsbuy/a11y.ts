@@ -0,0 +1,83 @@
+import { debounce } from '$utils/debounce';
+
+import { SLIDER_NAMES } from './dom';
+import type { ExportSnapshot } from './export';
+import { formatCurrency, formatNumber, OPTION_LABELS } from './format';
+import type { CalculatorState } from './types';
+
+const LIVE_REGION_SELECTOR = '[bvb-live-region]';
+
+// Announce once the visitor settles on a value, not for every slider step
+const ANNOUNCE_DELAY_MS = 1000;
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`): string => {
+  return `${formatNumber(count)} ${count === 1 ? singular : pluralForm}`;
+};
+
+const getValueTexts = (state: CalculatorState): Record<string, string> => ({
+  engineers: plural(state.engineers, 'engineer'),
+  salary: `${formatCurrency(state.salary)} salary`,
+  volume: plural(state.users, 'user'),
+  timeline: plural(state.timeline, 'year'),
+  growth: `${state.userGrowth}% yearly user growth`,
+  inflation: `${state.salaryInflation}% yearly salary inflation`,
+});
+
+/**
+ * Gives range inputs a spoken value, e.g. "$150,000 salary" instead of "150000".
+ */
+export const updateRangeValueTexts = (state: CalculatorState): void => {
+  Object.entries(getValueTexts(state)).forEach(([name, text]) => {
+    document.querySelector(`input[name="${name}"]`)?.setAttribute('aria-valuetext', text);
+  });
+};
+
+/**
+ * Uses a `[bvb-live-region]` element when the page provides one, else appends a visually hidden one.
+ */
+const getLiveRegion = (): HTMLElement => {
+  let region = document.querySelector<HTMLElement>(LIVE_REGION_SELECTOR);
+  if (!region) {
+    region = document.createElement('div');
+    region.setAttribute('bvb-live-region', '');
+    region.style.cssText =
+      'position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0 0 0 0);white-space:nowrap;border:0;';
+    document.body.appendChild(region);
+  }
+  region.setAttribute('role', 'status');
+  region.setAttribute('aria-live', 'polite');
+  region.setAttribute('aria-atomic', 'true');
+  return region;
+};
+
+const getSummary = ({ state, costs }: ExportSnapshot): string => {
+  const years = plural(state.timeline, 'year');
+  const totals = [
+    `${OPTION_LABELS.build} ${formatCurrency(costs.build.total)}`,
+    `${OPTION_LABELS.saas} ${formatCurrency(costs.saas.total)}`,
+    `${OPTION_LABELS.fusionauth} ${formatCurrency(costs.fusionauth.total)}`,
+  ].join(', ');
+  const savings =
+    costs.savingsVsBuild > 0
+      ? ` ${OPTION_LABELS.fusionauth} saves ${formatCurrency(costs.savingsVsBuild)} compared to building.`
+      : '';
+  return `Estimated costs over ${years}: ${totals}.${savings}`;
+};
+
+/**
+ * Announces the new totals in a polite live region after calculator inputs, the currency or
+ * assessment answers change. Nothing is announced for the initial render.
+ */
+export const initializeResultAnnouncements = (getSnapshot: () => ExportSnapshot): void => {
+  const region = getLiveRegion();
+  const announce = debounce(() => {
+    region.textContent = getSummary(getSnapshot());
+  }, ANNOUNCE_DELAY_MS);
+
+  SLIDER_NAMES.forEach((name) => {
+    document.querySelector(`input[name="${name}"]`)?.addEventListener('input', announce);
+  });
+  document.querySelector('input[name="auth"]')?.addEventListener('change', announce);
+  document.querySelector('select[bvb-currency-select]')?.addEventListener('change', announce);
+  document.addEventListener('bvb:assessment-change', announce);
+};
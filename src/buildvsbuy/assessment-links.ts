@@ -0,0 +1,103 @@
+export type InputRange = {
+  min: number;
+  max: number;
+};
+
+/**
+ * Calculator adjustments declared on an assessment option:
+ * - `step-set="auth=true; engineers=5"` presets inputs once when the option is picked.
+ * - `step-range="volume=100000..1000000"` narrows range inputs while the option is selected.
+ * - `step-compliance-multiplier="1.5"` scales the build security and compliance cost while selected.
+ */
+export type CalculatorLinks = {
+  set: Record<string, string>;
+  ranges: Record<string, InputRange>;
+  complianceMultiplier: number;
+};
+
+// Raw `min`/`max` attributes of range inputs before an option narrowed them, keyed by input name
+const originalRanges = new Map<string, { min: string; max: string }>();
+
+const parseAssignments = (value: string | null): Array<[string, string]> => {
+  if (!value) return [];
+  return value
+    .split(/[;,]/)
+    .map((part) => part.split('=').map((s) => s.trim()))
+    .filter((pair): pair is [string, string] => pair.length === 2 && !!pair[0] && !!pair[1]);
+};
+
+export const readCalculatorLinks = (el: Element): CalculatorLinks | null => {
+  const set = Object.fromEntries(parseAssignments(el.getAttribute('step-set')));
+
+  const ranges: Record<string, InputRange> = {};
+  parseAssignments(el.getAttribute('step-range')).forEach(([name, range]) => {
+    const [min, max] = range.split('..').map(Number);
+    if (Number.isFinite(min) && Number.isFinite(max) && min <= max) ranges[name] = { min, max };
+  });
+
+  const multiplier = Number(el.getAttribute('step-compliance-multiplier'));
+  const complianceMultiplier =
+    el.hasAttribute('step-compliance-multiplier') && Number.isFinite(multiplier) && multiplier >= 0
+      ? multiplier
+      : 1;
+
+  const hasLinks =
+    Object.keys(set).length > 0 || Object.keys(ranges).length > 0 || complianceMultiplier !== 1;
+  return hasLinks ? { set, ranges, complianceMultiplier } : null;
+};
+
+const clampToInput = (input: HTMLInputElement, value: number): number => {
+  const min = input.min !== '' ? Number(input.min) : -Infinity;
+  const max = input.max !== '' ? Number(input.max) : Infinity;
+  return Math.min(Math.max(value, min), max);
+};
+
+export const applyInputPresets = (links: CalculatorLinks): void => {
+  Object.entries(links.set).forEach(([name, value]) => {
+    const input = document.querySelector<HTMLInputElement>(`input[name="${name}"]`);
+    if (!input) return;
+
+    if (input.type === 'checkbox') {
+      input.checked = ['true', '1', 'yes'].includes(value.toLowerCase());
+      return;
+    }
+
+    const num = Number(value);
+    if (Number.isFinite(num)) input.value = String(clampToInput(input, num));
+  });
+};
+
+/**
+ * Narrows range inputs to the bounds declared by the selected options (later options win)
+ * and restores the original bounds of inputs no selected option narrows anymore.
+ */
+export const applyInputRanges = (selected: CalculatorLinks[]): void => {
+  const ranges: Record<string, InputRange> = Object.assign(
+    {},
+    ...selected.map((links) => links.ranges)
+  );
+
+  originalRanges.forEach((original, name) => {
+    if (name in ranges) return;
+    const input = document.querySelector<HTMLInputElement>(`input[name="${name}"]`);
+    originalRanges.delete(name);
+    if (!input) return;
+    input.min = original.min;
+    input.max = original.max;
+  });
+
+  Object.entries(ranges).forEach(([name, range]) => {
+    const input = document.querySelector<HTMLInputElement>(`input[name="${name}"]`);
+    if (!input) return;
+    if (!originalRanges.has(name)) {
+      originalRanges.set(name, { min: input.min, max: input.max });
+    }
+    input.min = String(range.min);
+    input.max = String(range.max);
+    input.value = String(clampToInput(input, Number(input.value)));
+  });
+};
+
+export const getComplianceMultiplier = (selected: CalculatorLinks[]): number => {
+  return selected.reduce((product, links) => product * links.complianceMultiplier, 1);
+};
@@ -0,0 +1,324 @@
+import { applyInputPresets, type CalculatorLinks, readCalculatorLinks } from './assessment-links';
+import { formatCurrency } from './format';
+import {
+  type AssessmentOption,
+  type AssessmentQuestion,
+  type AssessmentResult,
+  type AssessmentScale,
+  getAnswerScores,
+  NO_SCORES,
+  RECOMMENDATIONS,
+  type RecommendationScores,
+  scoreAssessment,
+  YES_SCORES,
+  ZERO_SCORES,
+} from './scoring';
+import type { AssessmentAnswers, Recommendation } from './types';
+
+type StepBinding = {
+  question: AssessmentQuestion;
+  stepEl: HTMLElement;
+  optionEls: Array<{ el: HTMLElement; value: string }>;
+  scaleInput: HTMLInputElement | null;
+};
+
+const STEP_SELECTOR = '.bvb-step[step]';
+
+// Arrow keys move through a step's options like a native radio group
+const ARROW_STEPS: Record<string, number> = {
+  ArrowRight: 1,
+  ArrowDown: 1,
+  ArrowLeft: -1,
+  ArrowUp: -1,
+};
+
+// Calculator figures cited in the recommendation text
+type CostSummary = {
+  savingsVsBuild: number;
+  timeline: number;
+};
+
+const bindings: StepBinding[] = [];
+const answers: AssessmentAnswers = {};
+let costSummary: CostSummary | null = null;
+
+const readNumberAttr = (el: Element, name: string, fallback: number): number => {
+  const raw = el.getAttribute(name);
+  if (raw === null || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const readOptionScores = (el: Element, fallback: RecommendationScores): RecommendationScores => {
+  const scores = { ...fallback };
+  RECOMMENDATIONS.forEach((rec) => {
+    scores[rec] = readNumberAttr(el, `score-${rec}`, fallback[rec]);
+  });
+  return scores;
+};
+
+/**
+ * Scale inputs declare `score-<recommendation>="from,to"`, or a single `"to"` that starts from zero.
+ */
+const readScaleScores = (input: HTMLInputElement): Pick<AssessmentScale, 'from' | 'to'> => {
+  const from = { ...ZERO_SCORES };
+  const to = { ...ZERO_SCORES };
+  RECOMMENDATIONS.forEach((rec) => {
+    const parts = (input.getAttribute(`score-${rec}`) || '').split(',').map(Number);
+    if (parts.length === 2 && parts.every(Number.isFinite)) {
+      [from[rec], to[rec]] = parts;
+    } else if (parts.length === 1 && Number.isFinite(parts[0])) {
+      [to[rec]] = parts;
+    }
+  });
+  return { from, to };
+};
+
+export const getAssessmentAnswers = (): AssessmentAnswers => ({ ...answers });
+
+/**
+ * Ids of the `.bvb-step[step]` elements on the page, available before the assessment initializes.
+ */
+export const getAssessmentStepIds = (): string[] => {
+  return Array.from(document.querySelectorAll<HTMLElement>(STEP_SELECTOR)).flatMap((stepEl) => {
+    const id = stepEl.getAttribute('step')?.trim();
+    return id ? [id] : [];
+  });
+};
+
+export const getAssessmentResult = (): AssessmentResult => {
+  return scoreAssessment(
+    bindings.map(({ question }) => question),
+    answers
+  );
+};
+
+/**
+ * Calculator links of every currently selected option, in step order.
+ */
+export const getSelectedLinks = (): CalculatorLinks[] => {
+  return bindings.reduce<CalculatorLinks[]>((selected, { question }) => {
+    const option = question.options.find((opt) => opt.value === answers[question.id]);
+    if (option?.links) selected.push(option.links);
+    return selected;
+  }, []);
+};
+
+const collectStep = (stepEl: HTMLElement): StepBinding | null => {
+  const id = stepEl.getAttribute('step')?.trim();
+  if (!id) return null;
+
+  const optionEls: StepBinding['optionEls'] = [];
+  const options: AssessmentOption[] = [];
+  const addOption = (el: HTMLElement | null, value: string, fallback: RecommendationScores) => {
+    if (!el || !value || options.some((opt) => opt.value === value)) return;
+    optionEls.push({ el, value });
+    options.push({ value, scores: readOptionScores(el, fallback), links: readCalculatorLinks(el) });
+  };
+
+  addOption(stepEl.querySelector<HTMLElement>('[step-yes]'), 'yes', YES_SCORES);
+  addOption(stepEl.querySelector<HTMLElement>('[step-no]'), 'no', NO_SCORES);
+  stepEl.querySelectorAll<HTMLElement>('[step-option]').forEach((el) => {
+    addOption(el, el.getAttribute('step-option')?.trim() || '', ZERO_SCORES);
+  });
+
+  const scaleInput = stepEl.querySelector<HTMLInputElement>('input[step-scale]');
+  const scale: AssessmentScale | null = scaleInput
+    ? {
+        min: readNumberAttr(scaleInput, 'min', 0),
+        max: readNumberAttr(scaleInput, 'max', 100),
+        ...readScaleScores(scaleInput),
+      }
+    : null;
+
+  if (!options.length && !scale) return null;
+
+  const weight = Math.max(readNumberAttr(stepEl, 'step-weight', 1), 0);
+  return { question: { id, weight, options, scale }, stepEl, optionEls, scaleInput };
+};
+
+// `selected-yes`, `selected-no`, or e.g. `selected-very-likely`: class tokens can't hold whitespace
+const getSelectedClass = (value: string): string => `selected-${value.replace(/\s+/g, '-')}`;
+
+const updateStepSelection = (binding: StepBinding): void => {
+  const selected = answers[binding.question.id];
+  const selectedClasses = binding.optionEls.map(({ value }) => getSelectedClass(value));
+
+  const hasSelection = binding.optionEls.some(({ value }) => value === selected);
+
+  // Clear any previous state
+  binding.optionEls.forEach(({ el, value }, index) => {
+    el.classList.remove(...selectedClasses);
+    if (value === selected) el.classList.add(getSelectedClass(value));
+    el.setAttribute('aria-checked', String(value === selected));
+    // Roving tabindex: only the selected (or first) option is in the tab order
+    el.tabIndex = (hasSelection ? value === selected : index === 0) ? 0 : -1;
+  });
+
+  if (selected === null || selected === undefined) {
+    binding.stepEl.removeAttribute('data-selected');
+  } else {
+    binding.stepEl.setAttribute('data-selected', selected);
+  }
+};
+
+/**
+ * Exposes the options of a step as a radio group labelled by its `[step-question]` element.
+ */
+const applyRadioSemantics = (binding: StepBinding): void => {
+  if (!binding.optionEls.length) return;
+  const { stepEl } = binding;
+  stepEl.setAttribute('role', 'radiogroup');
+
+  const label = stepEl.querySelector<HTMLElement>('[step-question]');
+  if (label) {
+    if (!label.id) label.id = `bvb-step-${binding.question.id}-label`;
+    stepEl.setAttribute('aria-labelledby', label.id);
+  }
+  binding.optionEls.forEach(({ el }) => el.setAttribute('role', 'radio'));
+};
+
+const focusAssessmentResult = (): void => {
+  const container = Array.from(document.querySelectorAll<HTMLElement>('[assessment-info]')).find(
+    (el) => el.style.display !== 'none'
+  );
+  if (!container) return;
+  if (!container.hasAttribute('tabindex')) container.tabIndex = -1;
+  container.focus();
+};
+
+const dispatchAssessmentChange = (): void => {
+  const detail = { ...getAssessmentResult(), answers: getAssessmentAnswers() };
+  document.dispatchEvent(new CustomEvent('bvb:assessment-change', { detail }));
+};
+
+const getSavingsSentence = (rec: Recommendation): string => {
+  if (!costSummary || costSummary.savingsVsBuild <= 0) return '';
+  const savings = formatCurrency(costSummary.savingsVsBuild);
+  const years = `${costSummary.timeline} ${costSummary.timeline === 1 ? 'year' : 'years'}`;
+
+  if (rec === 'fusionauth') {
+    return ` Based on your inputs, FusionAuth saves an estimated ${savings} over ${years} compared to building in-house.`;
+  }
+  return ` For reference, FusionAuth is estimated to cost ${savings} less than building over ${years}.`;
+};
+
+const getAssessmentMessage = (rec: Recommendation): string => {
+  const savings = getSavingsSentence(rec);
+  if (rec === 'fusionauth') {
+    return `FusionAuth - You need fast deployment with enterprise features. FusionAuth provides production-ready auth with compliance built-in.${savings}`;
+  }
+  if (rec === 'saas') {
+    return `Traditional SaaS - A managed solution could work, but evaluate customization limitations and long-term costs carefully.${savings}`;
+  }
+  return `Consider Building - You may have the resources and unique requirements that justify building, but review the full analysis below.${savings}`;
+};
+
+const updateAssessmentUI = (): void => {
+  const { completed, recommendation, confidence } = getAssessmentResult();
+  const containers = document.querySelectorAll<HTMLElement>('[assessment-info]');
+  containers.forEach((container) => {
+    const textEl = container.querySelector<HTMLElement>('[assessment-text]');
+    const confidenceEl = container.querySelector<HTMLElement>('[assessment-confidence]');
+    const savingsEl = container.querySelector<HTMLElement>('[assessment-savings]');
+    if (!completed) {
+      container.style.display = 'none';
+      container.removeAttribute('data-recommendation');
+    } else {
+      container.style.display = '';
+      container.setAttribute('data-recommendation', recommendation);
+      if (textEl) textEl.textContent = getAssessmentMessage(recommendation);
+      if (confidenceEl) confidenceEl.textContent = `${Math.round(confidence * 100)}%`;
+      if (savingsEl && costSummary)
+        savingsEl.textContent = formatCurrency(costSummary.savingsVsBuild);
+    }
+  });
+};
+
+/**
+ * Refreshes the recommendation text with the latest calculator results.
+ */
+export const updateAssessmentCostSummary = (summary: CostSummary): void => {
+  costSummary = summary;
+  updateAssessmentUI();
+};
+
+const isValidAnswer = (question: AssessmentQuestion, answer: string | null): answer is string => {
+  return answer !== null && getAnswerScores(question, answer) !== null;
+};
+
+/**
+ * Discovers every `.bvb-step[step]` and wires its answer controls:
+ * - `[step-yes]` / `[step-no]` buttons with the legacy yes/no scoring.
+ * - Any number of `[step-option="<value>"]` buttons for multiple choice.
+ * - An `input[step-scale]` range for scale questions.
+ * Options and scales declare their contribution via `score-fusionauth`, `score-saas` and `score-build`,
+ * and each step can be weighted with `step-weight`. Options can also adjust the calculator,
+ * see `CalculatorLinks`; `onChange` runs after every answer so the calculator can re-render.
+ */
+export const initializeAssessment = (
+  initialAnswers: AssessmentAnswers,
+  onChange: () => void
+): void => {
+  const steps = document.querySelectorAll<HTMLElement>(STEP_SELECTOR);
+  steps.forEach((stepEl) => {
+    const binding = collectStep(stepEl);
+    if (!binding) return;
+    const { question } = binding;
+    if (bindings.some((existing) => existing.question.id === question.id)) return;
+    bindings.push(binding);
+
+    // Reflect answers restored from a shared link
+    const restored = initialAnswers[question.id] ?? null;
+    answers[question.id] = isValidAnswer(question, restored) ? restored : null;
+    if (binding.scaleInput && answers[question.id] !== null) {
+      binding.scaleInput.value = String(answers[question.id]);
+    }
+    applyRadioSemantics(binding);
+    updateStepSelection(binding);
+
+    // Option picks move focus to the result once it appears, dragging a scale keeps focus
+    const setAnswer = (value: string, focusResult: boolean) => {
+      const wasCompleted = getAssessmentResult().completed;
+      answers[question.id] = value;
+      const links = question.options.find((opt) => opt.value === value)?.links;
+      if (links) applyInputPresets(links);
+      updateStepSelection(binding);
+      dispatchAssessmentChange();
+      updateAssessmentUI();
+      onChange();
+      if (focusResult && !wasCompleted && getAssessmentResult().completed) {
+        focusAssessmentResult();
+      }
+    };
+
+    binding.optionEls.forEach(({ el, value }, index) => {
+      el.addEventListener('click', (e) => {
+        e.preventDefault();
+        setAnswer(value, true);
+      });
+
+      el.addEventListener('keydown', (e) => {
+        const { optionEls } = binding;
+        if (e.key === ' ' || e.key === 'Enter') {
+          e.preventDefault();
+          setAnswer(value, true);
+          return;
+        }
+        const step = ARROW_STEPS[e.key];
+        if (!step) return;
+        e.preventDefault();
+        const next = optionEls[(index + step + optionEls.length) % optionEls.length];
+        next.el.focus();
+        setAnswer(next.value, false);
+      });
+    });
+
+    binding.scaleInput?.addEventListener('input', (e) => {
+      setAnswer((e.currentTarget as HTMLInputElement).value, false);
+    });
+  });
+
+  // Render initial state (hidden until complete)
+  updateAssessmentUI();
+};
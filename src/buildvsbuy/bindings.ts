@@ -0,0 +1,126 @@
+import { formatCurrency, formatNumber } from './format';
+import type { CostProjection } from './projection';
+import type { CalculatorState, CostBreakdown } from './types';
+
+/**
+ * What `bvb-bind`, `bvb-delta` and `bvb-show-if` paths resolve against: the calculator inputs
+ * (`engineers`, `hasExistingAuth`, ...), the cost breakdown (`build.total`, `saas.plan.name`,
+ * `savingsVsBuild`, ...) and the break-even years (`breakEvenYear.build`).
+ */
+export type BindingModel = CalculatorState &
+  CostBreakdown & {
+    breakEvenYear: CostProjection['breakEvenYear'];
+  };
+
+export type BindingFormat = 'currency' | 'number' | 'percent' | 'years' | 'text';
+
+const FORMATS: BindingFormat[] = ['currency', 'number', 'percent', 'years', 'text'];
+
+// Longest operators first so `>=` isn't read as `>`
+const OPERATORS = ['==', '!=', '>=', '<=', '>', '<'] as const;
+
+type Operator = (typeof OPERATORS)[number];
+
+export const createBindingModel = (
+  state: CalculatorState,
+  costs: CostBreakdown,
+  projection: CostProjection
+): BindingModel => ({
+  ...state,
+  ...costs,
+  breakEvenYear: projection.breakEvenYear,
+});
+
+/**
+ * Walks a dot-separated path through the model, `undefined` when any step is missing.
+ */
+export const resolvePath = (model: BindingModel, path: string): unknown => {
+  return path
+    .trim()
+    .split('.')
+    .reduce<unknown>((value, key) => {
+      if (typeof value !== 'object' || value === null || !Object.hasOwn(value, key)) return;
+      return (value as Record<string, unknown>)[key];
+    }, model);
+};
+
+export const parseFormat = (value: string | null): BindingFormat | null => {
+  const format = value?.trim() as BindingFormat | undefined;
+  return format && FORMATS.includes(format) ? format : null;
+};
+
+/**
+ * Formats a bound value. Numbers default to `number`, anything else is shown as text;
+ * `null` and `undefined` show the fallback.
+ */
+export const formatValue = (
+  value: unknown,
+  format: BindingFormat | null,
+  fallback = ''
+): string => {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== 'number' || format === 'text') return String(value);
+
+  switch (format) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percent':
+      return `${formatNumber(value)}%`;
+    case 'years':
+      return `${formatNumber(value)} ${value === 1 ? 'year' : 'years'}`;
+    default:
+      return formatNumber(value);
+  }
+};
+
+/**
+ * Formats the difference to a baseline with an explicit sign, e.g. `+$12,000`.
+ */
+export const formatDelta = (delta: number, format: BindingFormat | null): string => {
+  const magnitude = formatValue(Math.abs(delta), format);
+  if (delta === 0) return magnitude;
+  return `${delta > 0 ? '+' : '-'}${magnitude}`;
+};
+
+const parseLiteral = (model: BindingModel, token: string): unknown => {
+  const text = token.trim();
+  if (/^(['"]).*\1$/.test(text)) return text.slice(1, -1);
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null') return null;
+  if (text !== '' && Number.isFinite(Number(text))) return Number(text);
+  return resolvePath(model, text);
+};
+
+const compare = (left: unknown, operator: Operator, right: unknown): boolean => {
+  if (operator === '==') return left === right;
+  if (operator === '!=') return left !== right;
+  if (typeof left !== 'number' || typeof right !== 'number') return false;
+  if (operator === '>=') return left >= right;
+  if (operator === '<=') return left <= right;
+  if (operator === '>') return left > right;
+  return left < right;
+};
+
+const evaluateClause = (model: BindingModel, clause: string): boolean => {
+  const operator = OPERATORS.find((op) => clause.includes(op));
+  if (operator) {
+    const [left, right] = clause.split(operator);
+    return compare(parseLiteral(model, left), operator, parseLiteral(model, right));
+  }
+
+  const text = clause.trim();
+  if (text.startsWith('!')) return !evaluateClause(model, text.slice(1));
+  return !!resolvePath(model, text);
+};
+
+/**
+ * Evaluates a `bvb-show-if` expression: paths are truthy checks (`hasExistingAuth`, `saas.plan`),
+ * `!` negates, and `==`, `!=`, `>`, `>=`, `<`, `<=` compare with numbers, `true`/`false`, quoted
+ * strings or other paths. Clauses combine with `&&`, which binds tighter than `||`.
+ */
+export const evaluateCondition = (model: BindingModel, expression: string): boolean => {
+  return expression
+    .split('||')
+    .some((group) => group.split('&&').every((clause) => evaluateClause(model, clause)));
+};
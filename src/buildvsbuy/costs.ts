@@ -0,0 +1,145 @@
+import { type PlanQuote, quoteLicensing } from './licensing';
+import { type PricingConfig, resolvePlans } from './pricing';
+import type { CalculatorState, CostBreakdown, SelectedPlan } from './types';
+
+// A stretch of the timeline priced at one user count and salary: a year, or the part of one
+type Period = {
+  index: number; // 0-based year the period falls in
+  length: number; // in years
+};
+
+const toSelectedPlan = ({ plan }: PlanQuote): SelectedPlan | null => {
+  return plan ? { id: plan.id, name: plan.name } : null;
+};
+
+/**
+ * Users in the given 0-based year, grown yearly by `userGrowth` percent.
+ */
+export const growUsers = (state: CalculatorState, index: number): number => {
+  return Math.round(state.users * (1 + state.userGrowth / 100) ** index);
+};
+
+/**
+ * Salary in the given 0-based year, inflated yearly by `salaryInflation` percent.
+ */
+export const inflateSalary = (state: CalculatorState, index: number): number => {
+  return state.salary * (1 + state.salaryInflation / 100) ** index;
+};
+
+// Whole years, then what's left of the last one. A zero timeline still prices the one-time work.
+const splitTimeline = (timeline: number): Period[] => {
+  const fullYears = Math.max(Math.floor(timeline), 0);
+  const periods = Array.from({ length: fullYears }, (_, index) => ({ index, length: 1 }));
+  const rest = Math.max(timeline - fullYears, 0);
+  if (rest > 0 || !periods.length) periods.push({ index: fullYears, length: rest });
+  return periods;
+};
+
+// Unrounded costs of one period. One-time costs are only counted for the first period.
+const calculatePeriodCosts = (state: CalculatorState, pricing: PricingConfig, period: Period) => {
+  const { build, saas, fusionauth } = pricing;
+  const { length } = period;
+  const users = growUsers(state, period.index);
+  const loadedSalary = inflateSalary(state, period.index) * pricing.overheadMultiplier;
+  const saasQuote = quoteLicensing(resolvePlans(pricing, 'saas'), users, saas.perUserMonthly);
+  const fusQuote = quoteLicensing(
+    resolvePlans(pricing, 'fusionauth'),
+    users,
+    fusionauth.perUserMonthly
+  );
+
+  return {
+    oneTime: {
+      buildInitialDevelopment: state.engineers * loadedSalary * build.initialDevelopmentYears,
+      buildTransition: build.transitionOneTime,
+      saasIntegrationWork: state.engineers * loadedSalary * saas.integrationYears,
+      saasMigration: saas.migrationCost,
+      fusIntegration: state.engineers * loadedSalary * fusionauth.integrationYears,
+    },
+    recurring: {
+      buildMaintenance:
+        (length * build.maintenanceHoursPerYear * loadedSalary) / pricing.hoursPerYear,
+      buildSecurityAndCompliance:
+        length * build.securityAndCompliancePerYear * state.complianceMultiplier,
+      buildOpportunityCost: length * build.opportunityCostPerYear,
+      buildExistingMaintenance: length * build.existingMaintenancePerYear,
+      saasUserLicensing: saasQuote.monthlyCost * 12 * length,
+      saasOngoingSupport: (length * saas.supportHoursPerYear * loadedSalary) / pricing.hoursPerYear,
+      fusLicensing: fusQuote.monthlyCost * 12 * length,
+      fusMaintenance:
+        (length * fusionauth.maintenanceHoursPerYear * loadedSalary) / pricing.hoursPerYear,
+    },
+    saasQuote,
+    fusQuote,
+  };
+};
+
+type PeriodCosts = ReturnType<typeof calculatePeriodCosts>;
+
+/**
+ * Prices the whole timeline. Users grow and salaries inflate year over year, so recurring costs
+ * are summed per year; one-time costs are priced at the first year's salary. Every line item is
+ * rounded once, and totals add up the rounded line items. The selected plans are those for the
+ * starting user count.
+ */
+export const calculateCosts = (state: CalculatorState, pricing: PricingConfig): CostBreakdown => {
+  const periods = splitTimeline(state.timeline).map((period) =>
+    calculatePeriodCosts(state, pricing, period)
+  );
+  const [first] = periods;
+  const oneTime = (key: keyof PeriodCosts['oneTime']): number => Math.round(first.oneTime[key]);
+  const recurring = (key: keyof PeriodCosts['recurring']): number => {
+    return Math.round(periods.reduce((sum, period) => sum + period.recurring[key], 0));
+  };
+
+  const build = state.hasExistingAuth
+    ? {
+        initialDevelopment: oneTime('buildTransition'),
+        ongoingMaintenance: recurring('buildExistingMaintenance'),
+        securityAndCompliance: 0,
+        opportunityCost: 0,
+        oneTimeTransition: oneTime('buildTransition'),
+      }
+    : {
+        initialDevelopment: oneTime('buildInitialDevelopment'),
+        ongoingMaintenance: recurring('buildMaintenance'),
+        securityAndCompliance: recurring('buildSecurityAndCompliance'),
+        opportunityCost: recurring('buildOpportunityCost'),
+        oneTimeTransition: 0,
+      };
+  const buildTotal =
+    build.initialDevelopment +
+    build.ongoingMaintenance +
+    build.securityAndCompliance +
+    build.opportunityCost;
+
+  const saasMigrationCost = state.hasExistingAuth ? oneTime('saasMigration') : 0;
+  const saasUserLicensing = recurring('saasUserLicensing');
+  const saasIntegrationWork = oneTime('saasIntegrationWork') + saasMigrationCost;
+  const saasOngoingSupport = recurring('saasOngoingSupport');
+
+  const fusLicensing = recurring('fusLicensing');
+  const fusIntegration = oneTime('fusIntegration');
+  const fusMaintenance = recurring('fusMaintenance');
+  const fusTotal = fusLicensing + fusIntegration + fusMaintenance;
+
+  return {
+    build: { total: buildTotal, ...build },
+    saas: {
+      total: saasUserLicensing + saasIntegrationWork + saasOngoingSupport,
+      userLicensing: saasUserLicensing,
+      integrationWork: saasIntegrationWork,
+      ongoingSupport: saasOngoingSupport,
+      migrationCost: saasMigrationCost,
+      plan: toSelectedPlan(first.saasQuote),
+    },
+    fusionauth: {
+      total: fusTotal,
+      licensing: fusLicensing,
+      integration: fusIntegration,
+      maintenance: fusMaintenance,
+      plan: toSelectedPlan(first.fusQuote),
+    },
+    savingsVsBuild: buildTotal - fusTotal,
+  };
+};
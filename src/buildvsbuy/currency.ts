@@ -0,0 +1,132 @@
+import type { PricingConfig, PricingPlan } from './pricing';
+
+export type CurrencySettings = {
+  currency: string; // ISO 4217 code
+  locale: string | undefined; // `undefined` uses the visitor's locale
+  rate: number; // units of `currency` per USD
+};
+
+type SliderBounds = {
+  min: number;
+  max: number;
+  step: number;
+};
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  currency: 'USD',
+  locale: undefined,
+  rate: 1,
+};
+
+const CURRENCY_SELECT_SELECTOR = 'select[bvb-currency-select]';
+
+// Salary slider bounds as authored in Webflow (USD), captured before the first conversion
+let usdSalaryBounds: SliderBounds | null = null;
+
+const readLocale = (): string | undefined => {
+  const locale = document.querySelector('[bvb-locale]')?.getAttribute('bvb-locale')?.trim();
+  if (!locale) return undefined;
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length ? locale : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Resolves the active currency from the `[bvb-currency-select]` selector, falling back to a
+ * `[bvb-currency]` page attribute and then USD. Currencies without an FX rate fall back to USD.
+ */
+export const readCurrencySettings = (fxRates: Record<string, number>): CurrencySettings => {
+  const select = document.querySelector<HTMLSelectElement>(CURRENCY_SELECT_SELECTOR);
+  const pageCurrency = document.querySelector('[bvb-currency]')?.getAttribute('bvb-currency');
+  const requested = (select?.value || pageCurrency || 'USD').trim().toUpperCase();
+  const currency = fxRates[requested] ? requested : 'USD';
+
+  return { currency, locale: readLocale(), rate: fxRates[currency] ?? 1 };
+};
+
+const convertPlans = (plans: PricingPlan[], rate: number): PricingPlan[] => {
+  return plans.map((plan) => ({
+    ...plan,
+    monthlyMinimum: plan.monthlyMinimum * rate,
+    brackets: plan.brackets.map((bracket) => ({
+      ...bracket,
+      perUserMonthly: bracket.perUserMonthly * rate,
+    })),
+  }));
+};
+
+/**
+ * Converts every monetary value of a USD pricing config into the target currency.
+ * Multipliers, hours and user counts are left untouched.
+ */
+export const convertPricingConfig = (pricing: PricingConfig, rate: number): PricingConfig => {
+  if (rate === 1) return pricing;
+  const { build, saas, fusionauth } = pricing;
+
+  return {
+    ...pricing,
+    build: {
+      ...build,
+      securityAndCompliancePerYear: build.securityAndCompliancePerYear * rate,
+      opportunityCostPerYear: build.opportunityCostPerYear * rate,
+      transitionOneTime: build.transitionOneTime * rate,
+      existingMaintenancePerYear: build.existingMaintenancePerYear * rate,
+    },
+    saas: {
+      ...saas,
+      perUserMonthly: saas.perUserMonthly * rate,
+      migrationCost: saas.migrationCost * rate,
+      plans: saas.plans && convertPlans(saas.plans, rate),
+    },
+    fusionauth: {
+      ...fusionauth,
+      perUserMonthly: fusionauth.perUserMonthly * rate,
+      plans: fusionauth.plans && convertPlans(fusionauth.plans, rate),
+    },
+  };
+};
+
+// Rounds to one significant digit so converted steps stay readable (4600 -> 5000)
+const toNiceStep = (value: number): number => {
+  if (value <= 1) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return Math.round(value / magnitude) * magnitude;
+};
+
+/**
+ * Rescales the salary slider from its authored USD bounds into the target currency
+ * and converts the current value from `fromRate` so the selected salary is preserved.
+ */
+export const adaptSalaryInput = (fromRate: number, toRate: number): void => {
+  const input = document.querySelector<HTMLInputElement>('input[name="salary"]');
+  if (!input) return;
+
+  if (!usdSalaryBounds) {
+    const step = Number(input.step);
+    usdSalaryBounds = {
+      min: input.min !== '' ? Number(input.min) : 0,
+      max: input.max !== '' ? Number(input.max) : 100,
+      step: Number.isFinite(step) && step > 0 ? step : 1,
+    };
+  }
+
+  // USD restores the authored bounds as-is
+  const isUsd = toRate === 1;
+  const step = isUsd ? usdSalaryBounds.step : toNiceStep(usdSalaryBounds.step * toRate);
+  const snap = (value: number) => (isUsd ? value : Math.round(value / step) * step);
+  const min = snap(usdSalaryBounds.min * toRate);
+  const max = snap(usdSalaryBounds.max * toRate);
+  const value = snap((Number(input.value) / fromRate) * toRate);
+
+  input.min = String(min);
+  input.max = String(max);
+  input.step = String(step);
+  input.value = String(Math.min(Math.max(value, min), max));
+};
+
+export const initializeCurrencySelect = (onChange: () => void): void => {
+  const select = document.querySelector<HTMLSelectElement>(CURRENCY_SELECT_SELECTOR);
+  select?.addEventListener('change', onChange);
+};
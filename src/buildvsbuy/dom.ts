@@ -0,0 +1,4 @@
+// `name`s of the calculator's range inputs
+export const SLIDER_NAMES = ['engineers', 'salary', 'volume', 'timeline', 'growth', 'inflation'];
+
+export const SLIDER_SELECTOR = SLIDER_NAMES.map((name) => `input[name="${name}"]`).join(', ');
@@ -0,0 +1,157 @@
+import { calculateCosts } from './costs';
+import { DEFAULT_PRICING_CONFIG, type PricingConfig } from './pricing';
+import { type CostProjection, projectCosts } from './projection';
+import type { CalculatorState, CostBreakdown } from './types';
+
+/**
+ * The calculator's pure public API: everything here runs without a DOM, so it can be used
+ * (and tested) from Node as well as from the Webflow page.
+ */
+export { calculateCosts } from './costs';
+export { DEFAULT_PRICING_CONFIG, normalizePricingConfig, type PricingConfig } from './pricing';
+export { type CostProjection, projectCosts } from './projection';
+export {
+  type AssessmentQuestion,
+  type AssessmentResult,
+  type RankedRecommendation,
+  scoreAssessment,
+} from './scoring';
+export type { AssessmentAnswers, CalculatorState, CostBreakdown, Recommendation } from './types';
+
+export type ScenarioInput = Partial<CalculatorState>;
+
+export type ScenarioResult = {
+  state: CalculatorState;
+  costs: CostBreakdown;
+  projection: CostProjection;
+};
+
+export type ValidationIssue = {
+  field: keyof CalculatorState | null; // `null` when the input as a whole is invalid
+  message: string;
+};
+
+const describeIssues = (issues: ValidationIssue[]): string => {
+  return issues.map(({ field, message }) => `${field ?? 'input'} ${message}`).join(', ');
+};
+
+export class InvalidScenarioError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid calculator input: ${describeIssues(issues)}`);
+    this.name = 'InvalidScenarioError';
+    this.issues = issues;
+  }
+}
+
+// Matches the calculator's initial slider positions
+export const DEFAULT_CALCULATOR_STATE: CalculatorState = {
+  engineers: 3,
+  salary: 150000,
+  users: 10000,
+  timeline: 3,
+  hasExistingAuth: false,
+  userGrowth: 0,
+  salaryInflation: 0,
+  complianceMultiplier: 1,
+};
+
+// Lowest accepted value per numeric field, growth and inflation can go negative down to -100%
+const MINIMUMS: Record<Exclude<keyof CalculatorState, 'hasExistingAuth'>, number> = {
+  engineers: 0,
+  salary: 0,
+  users: 0,
+  timeline: 0,
+  userGrowth: -100,
+  salaryInflation: -100,
+  complianceMultiplier: 0,
+};
+
+// Highest accepted value per numeric field. The timeline is priced year by year, so it needs a
+// ceiling; it's well above what the calculator's timeline slider offers.
+const MAXIMUMS: Partial<typeof MINIMUMS> = {
+  timeline: 30,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Lists what's wrong with a (partial) calculator state. Missing fields are fine, they take
+ * the defaults; present ones must be finite numbers within range, or a boolean for `hasExistingAuth`.
+ */
+export const validateCalculatorState = (input: unknown): ValidationIssue[] => {
+  if (!isRecord(input)) return [{ field: null, message: 'must be an object' }];
+  const issues: ValidationIssue[] = [];
+
+  if (input.hasExistingAuth !== undefined && typeof input.hasExistingAuth !== 'boolean') {
+    issues.push({ field: 'hasExistingAuth', message: 'must be a boolean' });
+  }
+
+  (Object.keys(MINIMUMS) as Array<keyof typeof MINIMUMS>).forEach((field) => {
+    const value = input[field];
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ field, message: 'must be a finite number' });
+    } else if (value < MINIMUMS[field]) {
+      issues.push({ field, message: `must be at least ${MINIMUMS[field]}` });
+    } else if (value > (MAXIMUMS[field] ?? Infinity)) {
+      issues.push({ field, message: `must be at most ${MAXIMUMS[field]}` });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Brings a state read from the page into range instead of rejecting it: numbers outside a field's
+ * range are moved to its nearest bound and non-finite ones take the default. Pages can't always be trusted to
+ * stay in range, e.g. a Webflow slider configured wider than the engine or a hand-edited share link.
+ */
+export const clampCalculatorState = (state: CalculatorState): CalculatorState => {
+  const clamped = { ...state };
+  (Object.keys(MINIMUMS) as Array<keyof typeof MINIMUMS>).forEach((field) => {
+    const value = state[field];
+    clamped[field] = Number.isFinite(value)
+      ? Math.min(Math.max(value, MINIMUMS[field]), MAXIMUMS[field] ?? Infinity)
+      : DEFAULT_CALCULATOR_STATE[field];
+  });
+  return clamped;
+};
+
+/**
+ * Fills in defaults for missing fields and validates the result.
+ * Throws an `InvalidScenarioError` listing every invalid field.
+ */
+export const resolveCalculatorState = (input: ScenarioInput = {}): CalculatorState => {
+  const issues = validateCalculatorState(input);
+  if (issues.length) throw new InvalidScenarioError(issues);
+  const defaults = DEFAULT_CALCULATOR_STATE;
+  return {
+    engineers: input.engineers ?? defaults.engineers,
+    salary: input.salary ?? defaults.salary,
+    users: input.users ?? defaults.users,
+    timeline: input.timeline ?? defaults.timeline,
+    hasExistingAuth: input.hasExistingAuth ?? defaults.hasExistingAuth,
+    userGrowth: input.userGrowth ?? defaults.userGrowth,
+    salaryInflation: input.salaryInflation ?? defaults.salaryInflation,
+    complianceMultiplier: input.complianceMultiplier ?? defaults.complianceMultiplier,
+  };
+};
+
+/**
+ * Prices a scenario: the cost breakdown over the whole timeline and its year-by-year projection.
+ */
+export const evaluateScenario = (
+  input: ScenarioInput = {},
+  pricing: PricingConfig = DEFAULT_PRICING_CONFIG
+): ScenarioResult => {
+  const state = resolveCalculatorState(input);
+  return {
+    state,
+    costs: calculateCosts(state, pricing),
+    projection: projectCosts(state, pricing),
+  };
+};
@@ -0,0 +1,205 @@
+import { formatCurrency, OPTION_LABELS } from './format';
+import { isLeadGateLocked } from './lead-gate';
+import type { CostProjection } from './projection';
+import type { CalculatorState, CostBreakdown, Recommendation } from './types';
+
+export type ExportSnapshot = {
+  state: CalculatorState;
+  costs: CostBreakdown;
+  projection: CostProjection;
+  recommendation: Recommendation | null; // `null` until the assessment is completed
+  currency: string; // ISO 4217 code all amounts are expressed in
+};
+
+type ReportRow = [section: string, item: string, value: number | string, isCurrency?: boolean];
+
+const CSV_FILENAME = 'fusionauth-build-vs-buy.csv';
+const PRINT_ROOT_ID = 'bvb-print-report';
+const PRINT_STYLE_ID = 'bvb-print-style';
+
+const getReportRows = ({ state, costs, projection, recommendation, currency }: ExportSnapshot) => {
+  const rows: ReportRow[] = [
+    ['Inputs', 'Engineers', state.engineers],
+    ['Inputs', `Average salary (${currency})`, state.salary],
+    ['Inputs', 'User volume', state.users],
+    ['Inputs', 'Timeline (years)', state.timeline],
+    ['Inputs', 'Existing auth system', state.hasExistingAuth ? 'Yes' : 'No'],
+    ['Inputs', 'Annual user growth (%)', state.userGrowth],
+    ['Inputs', 'Annual salary inflation (%)', state.salaryInflation],
+  ];
+
+  const addCost = (section: string, item: string, value: number) => {
+    rows.push([section, item, value, true]);
+  };
+
+  const { build, saas, fusionauth: fus } = OPTION_LABELS;
+  if (state.hasExistingAuth) {
+    addCost(build, 'One-time transition', costs.build.oneTimeTransition);
+    addCost(build, 'Ongoing maintenance', costs.build.ongoingMaintenance);
+  } else {
+    addCost(build, 'Initial development', costs.build.initialDevelopment);
+    addCost(build, 'Ongoing maintenance', costs.build.ongoingMaintenance);
+    addCost(build, 'Security and compliance', costs.build.securityAndCompliance);
+    addCost(build, 'Opportunity cost', costs.build.opportunityCost);
+  }
+  addCost(build, 'Total', costs.build.total);
+
+  if (costs.saas.plan) rows.push([saas, 'Plan', costs.saas.plan.name]);
+  addCost(saas, 'User licensing', costs.saas.userLicensing);
+  addCost(saas, 'Integration work', costs.saas.integrationWork);
+  if (state.hasExistingAuth) addCost(saas, 'Migration cost', costs.saas.migrationCost);
+  addCost(saas, 'Ongoing support', costs.saas.ongoingSupport);
+  addCost(saas, 'Total', costs.saas.total);
+
+  if (costs.fusionauth.plan) rows.push([fus, 'Plan', costs.fusionauth.plan.name]);
+  addCost(fus, 'Licensing', costs.fusionauth.licensing);
+  addCost(fus, 'Integration', costs.fusionauth.integration);
+  addCost(fus, 'Maintenance', costs.fusionauth.maintenance);
+  addCost(fus, 'Total', costs.fusionauth.total);
+
+  addCost('Summary', 'Savings vs. building', costs.savingsVsBuild);
+  rows.push(['Summary', 'Break-even year vs. building', projection.breakEvenYear.build ?? 'N/A']);
+  rows.push([
+    'Summary',
+    'Assessment recommendation',
+    recommendation ? OPTION_LABELS[recommendation] : 'Not completed',
+  ]);
+
+  projection.years.forEach(({ year, costs: yearCosts }) => {
+    const section = `Year ${year}`;
+    addCost(section, build, yearCosts.build);
+    addCost(section, saas, yearCosts.saas);
+    addCost(section, fus, yearCosts.fusionauth);
+  });
+
+  return rows;
+};
+
+const escapeCsvField = (value: number | string): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes the snapshot to CSV. Amounts are kept as raw numbers so they stay usable in spreadsheets.
+ */
+export const buildCsv = (snapshot: ExportSnapshot): string => {
+  const rows = getReportRows(snapshot).map(([section, item, value]) => [section, item, value]);
+  const lines = [['Section', 'Item', 'Value'], ...rows].map((row) =>
+    row.map(escapeCsvField).join(',')
+  );
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+const downloadCsv = (snapshot: ExportSnapshot): void => {
+  const blob = new Blob([buildCsv(snapshot)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = CSV_FILENAME;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const ensurePrintStyle = (): HTMLStyleElement => {
+  const existing = document.getElementById(PRINT_STYLE_ID);
+  if (existing instanceof HTMLStyleElement) return existing;
+  const style = document.createElement('style');
+  style.id = PRINT_STYLE_ID;
+  style.textContent = `
+    #${PRINT_ROOT_ID} { display: none; }
+    @media print {
+      body > *:not(#${PRINT_ROOT_ID}) { display: none !important; }
+      #${PRINT_ROOT_ID} { display: block; font: 12px/1.4 system-ui, sans-serif; color: #111827; }
+      #${PRINT_ROOT_ID} h1 { font-size: 20px; margin: 0 0 16px; }
+      #${PRINT_ROOT_ID} table { width: 100%; border-collapse: collapse; }
+      #${PRINT_ROOT_ID} th, #${PRINT_ROOT_ID} td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #E5E7EB; }
+      #${PRINT_ROOT_ID} td:last-child { text-align: right; }
+      #${PRINT_ROOT_ID} tr { break-inside: avoid; }
+    }
+  `;
+  document.head.appendChild(style);
+  return style;
+};
+
+const buildPrintReport = (snapshot: ExportSnapshot): HTMLElement => {
+  const root = document.createElement('div');
+  root.id = PRINT_ROOT_ID;
+
+  const heading = document.createElement('h1');
+  heading.textContent = 'Build vs. Buy: Authentication Cost Comparison';
+  root.appendChild(heading);
+
+  const table = document.createElement('table');
+  const tbody = document.createElement('tbody');
+  let lastSection = '';
+
+  getReportRows(snapshot).forEach(([section, item, value, isCurrency]) => {
+    if (section !== lastSection) {
+      const sectionRow = document.createElement('tr');
+      const th = document.createElement('th');
+      th.colSpan = 2;
+      th.textContent = section;
+      sectionRow.appendChild(th);
+      tbody.appendChild(sectionRow);
+      lastSection = section;
+    }
+
+    const row = document.createElement('tr');
+    const label = document.createElement('td');
+    const amount = document.createElement('td');
+    label.textContent = item;
+    amount.textContent =
+      isCurrency && typeof value === 'number' ? formatCurrency(value) : String(value);
+    row.append(label, amount);
+    tbody.appendChild(row);
+  });
+
+  table.appendChild(tbody);
+  root.appendChild(table);
+  return root;
+};
+
+/**
+ * Snapshots the current results into a print-only DOM tree and opens the print dialog.
+ * The snapshot and its print style are removed again once printing finishes, so printing the
+ * page from the browser afterwards shows the page itself.
+ */
+const printReport = (snapshot: ExportSnapshot): void => {
+  const style = ensurePrintStyle();
+  document.getElementById(PRINT_ROOT_ID)?.remove();
+
+  const report = buildPrintReport(snapshot);
+  document.body.appendChild(report);
+  window.addEventListener(
+    'afterprint',
+    () => {
+      report.remove();
+      style.remove();
+    },
+    { once: true }
+  );
+  window.print();
+};
+
+/**
+ * Wires `[bvb-export="csv"]` and `[bvb-export="print"]` buttons. They do nothing while the lead
+ * gate is locked.
+ */
+export const initializeExportButtons = (getSnapshot: () => ExportSnapshot): void => {
+  const buttons = document.querySelectorAll<HTMLElement>('[bvb-export]');
+  buttons.forEach((button) => {
+    const format = button.getAttribute('bvb-export');
+    if (format !== 'csv' && format !== 'print') return;
+
+    button.addEventListener('click', (e) => {
+      e.preventDefault();
+      if (isLeadGateLocked()) return;
+      if (format === 'csv') downloadCsv(getSnapshot());
+      else printReport(getSnapshot());
+    });
+  });
+};
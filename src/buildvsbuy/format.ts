@@ -0,0 +1,35 @@
+import type { Recommendation } from './types';
+
+export const OPTION_LABELS: Record<Recommendation, string> = {
+  build: 'Build In-House',
+  saas: 'Traditional SaaS',
+  fusionauth: 'FusionAuth',
+};
+
+const createCurrencyFormatter = (currency: string, locale?: string): Intl.NumberFormat => {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  });
+};
+
+let activeLocale: string | undefined;
+let currencyFormatter = createCurrencyFormatter('USD');
+
+/**
+ * Switches the currency and locale used by every formatter in the calculator.
+ */
+export const setFormatCurrency = (currency: string, locale?: string): void => {
+  activeLocale = locale;
+  currencyFormatter = createCurrencyFormatter(currency, locale);
+};
+
+export const formatCurrency = (value: number): string => {
+  return currencyFormatter.format(value);
+};
+
+export const formatNumber = (value: number): string => {
+  return value.toLocaleString(activeLocale, { maximumFractionDigits: 0 });
+};
@@ -0,0 +1,178 @@
+import { trackEvent } from '$utils/analytics';
+
+import type { ExportSnapshot } from './export';
+
+type GateMode = 'blur' | 'hide';
+
+const FORM_SELECTOR = 'form[bvb-lead-form]';
+const STORAGE_KEY = 'bvb-results-unlocked';
+const FIELD_PREFIX = 'bvb_';
+const GATED_CLASS = 'bvb-gated';
+const STYLE_ID = 'bvb-gate-style';
+
+const GATED_SECTIONS = ['build', 'saas', 'fusionauth'];
+
+// Every line item except the totals, which stay visible as a teaser. Legacy attributes are matched
+// too, as the gate locks before they're upgraded to `bvb-bind`.
+const LINE_ITEM_SELECTOR = [
+  '[inhouse-value]:not([inhouse-value="total"])',
+  '[saas-value]:not([saas-value="total"])',
+  '[fus-value]:not([fus-value="total"])',
+  ...GATED_SECTIONS.map((section) => {
+    return `[bvb-bind^="${section}."]:not([bvb-bind="${section}.total"])`;
+  }),
+].join(', ');
+
+// The per-year breakdown, and anything marked `[bvb-gated]`, is gated as a whole
+const BREAKDOWN_SELECTOR = '[bvb-year-row], [bvb-chart], [bvb-gated]';
+const EXPORT_SELECTOR = '[bvb-export]';
+
+const gatedElements = new Set<HTMLElement>();
+let locked = false;
+
+const readUnlocked = (): boolean => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) === '1';
+  } catch {
+    return false;
+  }
+};
+
+const persistUnlocked = (): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, '1');
+  } catch {
+    // Storage may be unavailable (e.g. private mode), the unlock then lasts for this page view
+  }
+};
+
+const toSnakeCase = (key: string): string => key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+
+const flatten = (value: unknown, prefix: string, fields: Record<string, string>): void => {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, nested]) => {
+      flatten(nested, `${prefix}${prefix ? '_' : ''}${toSnakeCase(key)}`, fields);
+    });
+    return;
+  }
+  fields[prefix] = value === null || value === undefined ? '' : String(value);
+};
+
+/**
+ * Flattens the scenario into form field values, e.g. `bvb_engineers`, `bvb_build_total`,
+ * `bvb_fusionauth_plan_name`, `bvb_recommendation` and `bvb_scenario_url`.
+ */
+const getLeadFields = (snapshot: ExportSnapshot, scenarioUrl: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  flatten(snapshot.state, '', fields);
+  flatten(snapshot.costs, '', fields);
+  fields.recommendation = snapshot.recommendation ?? '';
+  fields.currency = snapshot.currency;
+  fields.scenario_url = scenarioUrl;
+  return fields;
+};
+
+const writeHiddenFields = (form: HTMLFormElement, fields: Record<string, string>): void => {
+  Object.entries(fields).forEach(([key, value]) => {
+    const name = `${FIELD_PREFIX}${key}`;
+    let input = form.querySelector<HTMLInputElement>(`input[type="hidden"][name="${name}"]`);
+    if (!input) {
+      input = document.createElement('input');
+      input.type = 'hidden';
+      input.name = name;
+      form.appendChild(input);
+    }
+    input.value = value;
+  });
+};
+
+const ensureGateStyle = (): void => {
+  if (document.getElementById(STYLE_ID)) return;
+  const style = document.createElement('style');
+  style.id = STYLE_ID;
+  style.textContent = `
+    .${GATED_CLASS}[data-gate-mode="blur"] { filter: blur(6px); user-select: none; pointer-events: none; }
+    .${GATED_CLASS}[data-gate-mode="hide"] { visibility: hidden; }
+    ${EXPORT_SELECTOR}[aria-disabled="true"] { opacity: 0.5; cursor: not-allowed; }
+  `;
+  document.head.appendChild(style);
+};
+
+const lock = (mode: GateMode): void => {
+  ensureGateStyle();
+
+  const targets = new Set<HTMLElement>();
+  document.querySelectorAll<HTMLElement>(LINE_ITEM_SELECTOR).forEach((el) => {
+    targets.add(el.closest<HTMLElement>('.bvb-calculator_card_row') || el);
+  });
+  document.querySelectorAll<HTMLElement>(BREAKDOWN_SELECTOR).forEach((el) => targets.add(el));
+
+  targets.forEach((el) => {
+    el.classList.add(GATED_CLASS);
+    el.setAttribute('data-gate-mode', mode);
+    el.setAttribute('aria-hidden', 'true');
+    gatedElements.add(el);
+  });
+  document.querySelectorAll(EXPORT_SELECTOR).forEach((el) => {
+    el.setAttribute('aria-disabled', 'true');
+  });
+  document.documentElement.setAttribute('data-bvb-gated', 'true');
+  locked = true;
+};
+
+const unlock = (): void => {
+  // Copies of gated elements, e.g. rows of cloned scenario columns, unlock with them
+  const copies = document.querySelectorAll<HTMLElement>(`.${GATED_CLASS}`);
+  new Set([...gatedElements, ...copies]).forEach((el) => {
+    el.classList.remove(GATED_CLASS);
+    el.removeAttribute('data-gate-mode');
+    el.removeAttribute('aria-hidden');
+  });
+  gatedElements.clear();
+  document.querySelectorAll(EXPORT_SELECTOR).forEach((el) => el.removeAttribute('aria-disabled'));
+  document.documentElement.removeAttribute('data-bvb-gated');
+  locked = false;
+};
+
+/**
+ * Whether the breakdown is still gated. Exports stay disabled until then, as they'd reveal it.
+ */
+export const isLeadGateLocked = (): boolean => locked;
+
+/**
+ * Keeps the lead form's hidden scenario fields in sync with the latest results.
+ */
+export const updateLeadFormFields = (snapshot: ExportSnapshot, scenarioUrl: string): void => {
+  const forms = document.querySelectorAll<HTMLFormElement>(FORM_SELECTOR);
+  if (!forms.length) return;
+  const fields = getLeadFields(snapshot, scenarioUrl);
+  forms.forEach((form) => writeHiddenFields(form, fields));
+};
+
+/**
+ * Gates the detailed breakdown behind a `form[bvb-lead-form]` Webflow form.
+ * Totals stay visible while line items, the per-year rows and chart (and any `[bvb-gated]` element)
+ * are blurred, or hidden with `bvb-lead-form="hide"`, and `[bvb-export]` buttons are disabled until
+ * the form is submitted. The unlock persists in localStorage.
+ */
+export const initializeLeadGate = (
+  getSnapshot: () => ExportSnapshot,
+  getUrl: () => string
+): void => {
+  const forms = document.querySelectorAll<HTMLFormElement>(FORM_SELECTOR);
+  if (!forms.length) return;
+
+  const mode: GateMode = forms[0].getAttribute('bvb-lead-form') === 'hide' ? 'hide' : 'blur';
+  if (!readUnlocked()) lock(mode);
+
+  forms.forEach((form) => {
+    // Runs before Webflow's delegated submit handler serializes the form
+    form.addEventListener('submit', () => {
+      writeHiddenFields(form, getLeadFields(getSnapshot(), getUrl()));
+      if (!locked) return;
+      persistUnlocked();
+      unlock();
+      trackEvent('buildvsbuy', 'calculator_results_unlocked');
+    });
+  });
+};
@@ -0,0 +1,56 @@
+import type { PricingPlan } from './pricing';
+
+export type PlanQuote = {
+  plan: PricingPlan | null; // `null` when the flat per-user rate was used
+  monthlyCost: number;
+};
+
+/**
+ * Monthly cost of a plan for a given MAU, billing each bracket at its own rate
+ * and never going below the plan's minimum monthly fee.
+ */
+export const calculatePlanMonthlyCost = (plan: PricingPlan, users: number): number => {
+  let remaining = Math.max(users, 0);
+  let lowerBound = 0;
+  let usageCost = 0;
+
+  for (const bracket of plan.brackets) {
+    if (remaining <= 0) break;
+    const capacity = bracket.upTo === null ? Infinity : Math.max(bracket.upTo - lowerBound, 0);
+    const billed = Math.min(remaining, capacity);
+    usageCost += billed * bracket.perUserMonthly;
+    remaining -= billed;
+    if (bracket.upTo !== null) lowerBound = bracket.upTo;
+  }
+
+  return Math.max(usageCost, plan.monthlyMinimum);
+};
+
+const planQualifies = (plan: PricingPlan, users: number): boolean => {
+  if (users < plan.minUsers) return false;
+  if (plan.maxUsers !== null && users > plan.maxUsers) return false;
+  // Brackets that stop short of the user count can't bill the remainder
+  const lastBracket = plan.brackets[plan.brackets.length - 1];
+  if (lastBracket && lastBracket.upTo !== null && users > lastBracket.upTo) return false;
+  return true;
+};
+
+/**
+ * Picks the cheapest plan that qualifies for the given MAU.
+ * Falls back to `flatPerUserMonthly` when no plans are configured or none qualify.
+ */
+export const quoteLicensing = (
+  plans: PricingPlan[],
+  users: number,
+  flatPerUserMonthly: number
+): PlanQuote => {
+  let best: PlanQuote | null = null;
+
+  plans.forEach((plan) => {
+    if (!planQualifies(plan, users)) return;
+    const monthlyCost = calculatePlanMonthlyCost(plan, users);
+    if (!best || monthlyCost < best.monthlyCost) best = { plan, monthlyCost };
+  });
+
+  return best ?? { plan: null, monthlyCost: users * flatPerUserMonthly };
+};
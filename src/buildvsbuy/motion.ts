@@ -0,0 +1,84 @@
+const TWEEN_DURATION_MS = 400;
+const STYLE_ID = 'bvb-motion-style';
+
+type Tween = {
+  from: number;
+  to: number;
+  start: number;
+  render: (value: number) => void;
+};
+
+// Last value shown by each animated element, where the next tween starts from
+const displayed = new WeakMap<HTMLElement, number>();
+const tweens = new Map<HTMLElement, Tween>();
+let frame: number | null = null;
+
+const easeOutCubic = (t: number): number => 1 - (1 - t) ** 3;
+
+export const prefersReducedMotion = (): boolean => {
+  return window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+};
+
+// One frame loop drives every running tween, and stops once they have all settled
+const step = (now: number): void => {
+  tweens.forEach((tween, el) => {
+    const progress = Math.min(Math.max((now - tween.start) / TWEEN_DURATION_MS, 0), 1);
+    const value =
+      progress === 1 ? tween.to : tween.from + (tween.to - tween.from) * easeOutCubic(progress);
+    displayed.set(el, value);
+    tween.render(value);
+    if (progress === 1) tweens.delete(el);
+  });
+  frame = tweens.size ? window.requestAnimationFrame(step) : null;
+};
+
+/**
+ * Counts an element up or down to `to`, calling `render` with the intermediate values.
+ * A new target while a tween runs continues from the value on screen instead of queueing another
+ * animation, so rapid slider input stays smooth. The first value, detached elements and visitors
+ * preferring reduced motion get `to` rendered right away.
+ */
+export const animateNumber = (
+  el: HTMLElement,
+  to: number,
+  render: (value: number) => void
+): void => {
+  const from = displayed.get(el);
+  const running = tweens.get(el);
+  if (running?.to === to) {
+    running.render = render;
+    return;
+  }
+
+  if (from === undefined || from === to || !el.isConnected || prefersReducedMotion()) {
+    tweens.delete(el);
+    displayed.set(el, to);
+    render(to);
+    return;
+  }
+
+  tweens.set(el, { from, to, start: performance.now(), render });
+  frame ??= window.requestAnimationFrame(step);
+};
+
+/**
+ * Drops an element's animation state, e.g. when it stops showing a number.
+ */
+export const stopAnimation = (el: HTMLElement): void => {
+  tweens.delete(el);
+  displayed.delete(el);
+};
+
+/**
+ * Lets `[bvb-bar]` widths glide between values, unless reduced motion is preferred.
+ */
+export const ensureMotionStyles = (): void => {
+  if (document.getElementById(STYLE_ID)) return;
+  const style = document.createElement('style');
+  style.id = STYLE_ID;
+  style.textContent = `
+    [bvb-bar] { transition: width ${TWEEN_DURATION_MS}ms ease-out; }
+    @media (prefers-reduced-motion: reduce) { [bvb-bar] { transition: none; } }
+  `;
+  document.head.appendChild(style);
+};
@@ -0,0 +1,347 @@
+/**
+ * A graduated per-user rate. Users up to `upTo` MAU (inclusive) are billed at `perUserMonthly`,
+ * users above it fall through to the next bracket. `upTo: null` marks the open-ended last bracket.
+ */
+export type PricingBracket = {
+  upTo: number | null;
+  perUserMonthly: number;
+};
+
+/**
+ * A licensing plan such as Community, Starter, Essentials or Enterprise.
+ * Volume discounts are expressed as cheaper rates in higher brackets.
+ */
+export type PricingPlan = {
+  id: string;
+  name: string;
+  minUsers: number; // MAU the plan starts qualifying at
+  maxUsers: number | null; // MAU the plan stops qualifying at, `null` for unlimited
+  monthlyMinimum: number; // minimum monthly fee, billed even if usage is lower
+  brackets: PricingBracket[];
+};
+
+export type PricingConfig = {
+  overheadMultiplier: number; // applied on top of base salary
+  hoursPerYear: number; // working hours used to derive an hourly rate
+  build: {
+    initialDevelopmentYears: number; // engineer-years spent on the first version
+    maintenanceHoursPerYear: number;
+    securityAndCompliancePerYear: number;
+    opportunityCostPerYear: number;
+    transitionOneTime: number; // existing auth only
+    existingMaintenancePerYear: number; // existing auth only
+  };
+  saas: {
+    perUserMonthly: number;
+    integrationYears: number;
+    supportHoursPerYear: number;
+    migrationCost: number; // existing auth only
+    plans: PricingPlan[] | null; // see `resolvePlans`
+  };
+  fusionauth: {
+    perUserMonthly: number;
+    integrationYears: number;
+    maintenanceHoursPerYear: number;
+    plans: PricingPlan[] | null; // see `resolvePlans`
+  };
+  fxRates: Record<string, number>; // units of local currency per USD, keyed by ISO 4217 code
+};
+
+type PricingSection = 'build' | 'saas' | 'fusionauth';
+
+type LicensedSection = 'saas' | 'fusionauth';
+
+/**
+ * A default plan priced relative to its section's `perUserMonthly`, so overriding that rate (or
+ * converting it to another currency) reprices every tier.
+ */
+type DefaultTier = Pick<PricingPlan, 'id' | 'name' | 'minUsers' | 'maxUsers'> & {
+  minimumUsers: number; // the monthly minimum, billed as this many users at the flat rate
+  brackets: Array<{ upTo: number | null; rateShare: number }>; // share of the flat rate
+};
+
+const DEFAULT_TIERS: Record<LicensedSection, DefaultTier[]> = {
+  // A typical SaaS identity provider
+  saas: [
+    { id: 'free', name: 'Free', minUsers: 0, maxUsers: 1000, minimumUsers: 0, brackets: [] },
+    {
+      id: 'essentials',
+      name: 'Essentials',
+      minUsers: 1000,
+      maxUsers: 20000,
+      minimumUsers: 700,
+      brackets: [{ upTo: null, rateShare: 1 }],
+    },
+    {
+      id: 'professional',
+      name: 'Professional',
+      minUsers: 20000,
+      maxUsers: 100000,
+      minimumUsers: 16000,
+      brackets: [{ upTo: null, rateShare: 0.9 }],
+    },
+    {
+      id: 'enterprise',
+      name: 'Enterprise',
+      minUsers: 100000,
+      maxUsers: null,
+      minimumUsers: 80000,
+      brackets: [
+        { upTo: 1000000, rateShare: 0.7 },
+        { upTo: null, rateShare: 0.3 },
+      ],
+    },
+  ],
+  fusionauth: [
+    {
+      id: 'community',
+      name: 'Community',
+      minUsers: 0,
+      maxUsers: 1000,
+      minimumUsers: 0,
+      brackets: [],
+    },
+    {
+      id: 'starter',
+      name: 'Starter',
+      minUsers: 1000,
+      maxUsers: 25000,
+      minimumUsers: 5000,
+      brackets: [{ upTo: null, rateShare: 1 }],
+    },
+    {
+      id: 'essentials',
+      name: 'Essentials',
+      minUsers: 25000,
+      maxUsers: 250000,
+      minimumUsers: 35000,
+      brackets: [
+        { upTo: 100000, rateShare: 0.8 },
+        { upTo: null, rateShare: 0.5 },
+      ],
+    },
+    {
+      id: 'enterprise',
+      name: 'Enterprise',
+      minUsers: 250000,
+      maxUsers: null,
+      minimumUsers: 140000,
+      brackets: [
+        { upTo: 1000000, rateShare: 0.4 },
+        { upTo: null, rateShare: 0.15 },
+      ],
+    },
+  ],
+};
+
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  overheadMultiplier: 1.5,
+  hoursPerYear: 2080,
+  build: {
+    initialDevelopmentYears: 0.5,
+    maintenanceHoursPerYear: 78,
+    securityAndCompliancePerYear: 80000,
+    opportunityCostPerYear: 6120,
+    transitionOneTime: 50000,
+    existingMaintenancePerYear: 85000,
+  },
+  saas: {
+    perUserMonthly: 0.05,
+    integrationYears: 0.25,
+    supportHoursPerYear: 104,
+    migrationCost: 100000,
+    plans: null,
+  },
+  fusionauth: {
+    perUserMonthly: 0.024,
+    integrationYears: 0.04,
+    maintenanceHoursPerYear: 26,
+    plans: null,
+  },
+  fxRates: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    CAD: 1.36,
+    AUD: 1.52,
+  },
+};
+
+const SECTIONS: PricingSection[] = ['build', 'saas', 'fusionauth'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const toValidNumber = (value: unknown, fallback: number): number => {
+  if (value === null || value === undefined || value === '') return fallback;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) && num >= 0 ? num : fallback;
+};
+
+const mergeSection = <T extends object>(defaults: T, overrides: unknown): T => {
+  const source = isRecord(overrides) ? overrides : {};
+  const result = { ...defaults };
+  (Object.keys(defaults) as Array<keyof T>).forEach((key) => {
+    const fallback = defaults[key];
+    if (typeof fallback !== 'number') return;
+    result[key] = toValidNumber(source[key as string], fallback) as T[keyof T];
+  });
+  return result;
+};
+
+// Only a missing `upTo` opens a bracket, an invalid one drops it rather than billing everyone above
+const normalizeBrackets = (value: unknown): PricingBracket[] => {
+  if (!Array.isArray(value)) return [];
+
+  const brackets = value.filter(isRecord).map((bracket) => ({
+    upTo:
+      bracket.upTo === null || bracket.upTo === undefined ? null : toValidNumber(bracket.upTo, NaN),
+    perUserMonthly: toValidNumber(bracket.perUserMonthly, NaN),
+  }));
+
+  return brackets
+    .filter((bracket) => !Number.isNaN(bracket.upTo) && !Number.isNaN(bracket.perUserMonthly))
+    .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+};
+
+const normalizePlans = (value: unknown, fallback: PricingPlan[] | null): PricingPlan[] | null => {
+  if (!Array.isArray(value)) return fallback;
+
+  return value.filter(isRecord).reduce<PricingPlan[]>((plans, plan, index) => {
+    const brackets = normalizeBrackets(plan.brackets);
+    const monthlyMinimum = toValidNumber(plan.monthlyMinimum, 0);
+    // A plan needs at least one price point to be billable
+    if (!brackets.length && !monthlyMinimum) return plans;
+
+    const name = typeof plan.name === 'string' && plan.name.trim() ? plan.name.trim() : '';
+    const id = typeof plan.id === 'string' && plan.id.trim() ? plan.id.trim() : `plan-${index + 1}`;
+    const maxUsers = toValidNumber(plan.maxUsers, NaN);
+
+    plans.push({
+      id,
+      name: name || id,
+      minUsers: toValidNumber(plan.minUsers, 0),
+      maxUsers: Number.isNaN(maxUsers) ? null : maxUsers,
+      monthlyMinimum,
+      brackets,
+    });
+    return plans;
+  }, []);
+};
+
+const normalizeFxRates = (
+  value: unknown,
+  fallback: Record<string, number>
+): Record<string, number> => {
+  const rates = { ...fallback };
+  if (isRecord(value)) {
+    Object.entries(value).forEach(([code, rate]) => {
+      const currency = code.trim().toUpperCase();
+      const num = toValidNumber(rate, 0);
+      if (/^[A-Z]{3}$/.test(currency) && num > 0) rates[currency] = num;
+    });
+  }
+  // All pricing values are authored in USD
+  rates.USD = 1;
+  return rates;
+};
+
+/**
+ * The plans a section is quoted from. Configured plans are used as-is and an empty list bills
+ * `perUserMonthly` flat; without configured plans (`null`) the default Free/Community, Starter or
+ * Essentials, Professional and Enterprise tiers are priced from `perUserMonthly`.
+ */
+export const resolvePlans = (pricing: PricingConfig, section: LicensedSection): PricingPlan[] => {
+  const { plans, perUserMonthly } = pricing[section];
+  if (plans) return plans;
+  return DEFAULT_TIERS[section].map(({ minimumUsers, brackets, ...tier }) => ({
+    ...tier,
+    monthlyMinimum: minimumUsers * perUserMonthly,
+    brackets: brackets.map(({ upTo, rateShare }) => ({
+      upTo,
+      perUserMonthly: rateShare * perUserMonthly,
+    })),
+  }));
+};
+
+/**
+ * Validates an arbitrary object against the pricing shape.
+ * Unknown keys are dropped, missing or invalid (non-numeric, negative) values fall back to the defaults.
+ */
+export const normalizePricingConfig = (
+  overrides: unknown,
+  defaults: PricingConfig = DEFAULT_PRICING_CONFIG
+): PricingConfig => {
+  const source = isRecord(overrides) ? overrides : {};
+  return {
+    overheadMultiplier: toValidNumber(source.overheadMultiplier, defaults.overheadMultiplier),
+    hoursPerYear:
+      toValidNumber(source.hoursPerYear, defaults.hoursPerYear) || defaults.hoursPerYear,
+    build: mergeSection(defaults.build, source.build),
+    saas: {
+      ...mergeSection(defaults.saas, source.saas),
+      plans: normalizePlans(isRecord(source.saas) && source.saas.plans, defaults.saas.plans),
+    },
+    fusionauth: {
+      ...mergeSection(defaults.fusionauth, source.fusionauth),
+      plans: normalizePlans(
+        isRecord(source.fusionauth) && source.fusionauth.plans,
+        defaults.fusionauth.plans
+      ),
+    },
+    fxRates: normalizeFxRates(source.fxRates, defaults.fxRates),
+  };
+};
+
+const readJsonConfig = (): Record<string, unknown> => {
+  const script = document.querySelector<HTMLScriptElement>(
+    'script[type="application/json"][bvb-config]'
+  );
+  if (!script?.textContent) return {};
+  try {
+    const parsed: unknown = JSON.parse(script.textContent);
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Reads overrides from `data-*` attributes on a non-script `[bvb-config]` element.
+ * Top-level keys map directly (`data-overhead-multiplier`), section keys are prefixed
+ * with the section name (`data-saas-per-user-monthly`, `data-fusionauth-integration-years`).
+ * Plans and FX rates can only be configured through the JSON block.
+ */
+const readAttributeConfig = (): Record<string, unknown> => {
+  const el = document.querySelector<HTMLElement>('[bvb-config]:not(script)');
+  if (!el) return {};
+  const { dataset } = el;
+
+  const config: Record<string, unknown> = {
+    overheadMultiplier: dataset.overheadMultiplier,
+    hoursPerYear: dataset.hoursPerYear,
+  };
+
+  SECTIONS.forEach((section) => {
+    const values: Record<string, unknown> = {};
+    Object.entries(DEFAULT_PRICING_CONFIG[section]).forEach(([key, fallback]) => {
+      if (typeof fallback !== 'number') return;
+      values[key] = dataset[`${section}${capitalize(key)}`];
+    });
+    config[section] = values;
+  });
+
+  return config;
+};
+
+/**
+ * Resolves the pricing model for the page.
+ * Data attributes take precedence over the JSON block, which takes precedence over the defaults.
+ */
+export const readPricingConfig = (): PricingConfig => {
+  const fromJson = normalizePricingConfig(readJsonConfig());
+  return normalizePricingConfig(readAttributeConfig(), fromJson);
+};
@@ -0,0 +1,158 @@
+import { formatCurrency, formatNumber, OPTION_LABELS } from './format';
+import type { CostProjection, YearlyCosts, YearProjection } from './projection';
+
+const YEAR_ROW_ATTR = 'bvb-year-row';
+const YEAR_CLONE_ATTR = 'data-year-clone';
+const BREAK_EVEN_ATTR = 'data-break-even';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 8;
+
+// Default colors, overridable in Webflow via `.bvb-chart_line.is-<option>`
+const CHART_SERIES: Array<{ key: keyof YearlyCosts; color: string }> = [
+  { key: 'build', color: '#F87171' },
+  { key: 'saas', color: '#FBBF24' },
+  { key: 'fusionauth', color: '#6366F1' },
+];
+
+const getYearValues = (entry: YearProjection): Record<string, string> => ({
+  year: String(entry.year),
+  users: formatNumber(entry.users),
+  build: formatCurrency(entry.costs.build),
+  saas: formatCurrency(entry.costs.saas),
+  fusionauth: formatCurrency(entry.costs.fusionauth),
+  'cumulative-build': formatCurrency(entry.cumulative.build),
+  'cumulative-saas': formatCurrency(entry.cumulative.saas),
+  'cumulative-fusionauth': formatCurrency(entry.cumulative.fusionauth),
+});
+
+/**
+ * Clones every `[bvb-year-row]` template once per projected year and fills its `[year-value]` children.
+ * The template itself stays in the DOM (hidden) so it can be cloned again on the next render.
+ */
+export const renderYearRows = (projection: CostProjection): void => {
+  const templates = document.querySelectorAll<HTMLElement>(
+    `[${YEAR_ROW_ATTR}]:not([${YEAR_CLONE_ATTR}])`
+  );
+
+  templates.forEach((template) => {
+    const parent = template.parentElement;
+    if (!parent) return;
+
+    parent.querySelectorAll(`:scope > [${YEAR_CLONE_ATTR}]`).forEach((el) => el.remove());
+    template.style.display = 'none';
+
+    let anchor: HTMLElement = template;
+    projection.years.forEach((entry) => {
+      const row = template.cloneNode(true) as HTMLElement;
+      row.setAttribute(YEAR_CLONE_ATTR, String(entry.year));
+      row.style.display = '';
+      if (entry.year === projection.breakEvenYear.build) row.setAttribute(BREAK_EVEN_ATTR, 'true');
+
+      const values = getYearValues(entry);
+      row.querySelectorAll<HTMLElement>('[year-value]').forEach((el) => {
+        const key = el.getAttribute('year-value') || '';
+        if (key in values) el.textContent = values[key];
+      });
+
+      anchor.after(row);
+      anchor = row;
+    });
+  });
+};
+
+const createSvgElement = <K extends keyof SVGElementTagNameMap>(
+  tag: K,
+  attributes: Record<string, string>
+): SVGElementTagNameMap[K] => {
+  const el = document.createElementNS(SVG_NS, tag);
+  Object.entries(attributes).forEach(([name, value]) => el.setAttribute(name, value));
+  return el;
+};
+
+const buildChart = (projection: CostProjection): SVGSVGElement => {
+  const { years } = projection;
+  const maxValue = Math.max(
+    1,
+    ...years.flatMap(({ cumulative }) => CHART_SERIES.map(({ key }) => cumulative[key]))
+  );
+
+  const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const toX = (year: number) => CHART_PADDING + (year / years.length) * innerWidth;
+  const toY = (value: number) => CHART_HEIGHT - CHART_PADDING - (value / maxValue) * innerHeight;
+
+  const svg = createSvgElement('svg', {
+    class: 'bvb-chart_svg',
+    viewBox: `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`,
+    preserveAspectRatio: 'none',
+    width: '100%',
+    height: '100%',
+    role: 'img',
+    'aria-label': 'Cumulative cost by year',
+  });
+
+  svg.appendChild(
+    createSvgElement('line', {
+      class: 'bvb-chart_axis',
+      x1: String(CHART_PADDING),
+      y1: String(toY(0)),
+      x2: String(CHART_WIDTH - CHART_PADDING),
+      y2: String(toY(0)),
+      stroke: '#E5E7EB',
+      'vector-effect': 'non-scaling-stroke',
+    })
+  );
+
+  const breakEven = projection.breakEvenYear.build;
+  if (breakEven !== null) {
+    svg.appendChild(
+      createSvgElement('line', {
+        class: 'bvb-chart_break-even',
+        x1: String(toX(breakEven)),
+        y1: String(CHART_PADDING),
+        x2: String(toX(breakEven)),
+        y2: String(toY(0)),
+        stroke: '#9CA3AF',
+        'stroke-dasharray': '4 4',
+        'vector-effect': 'non-scaling-stroke',
+      })
+    );
+  }
+
+  CHART_SERIES.forEach(({ key, color }) => {
+    // Every series starts at zero before year 1
+    const points = [`${toX(0)},${toY(0)}`].concat(
+      years.map((entry) => `${toX(entry.year)},${toY(entry.cumulative[key])}`)
+    );
+    const line = createSvgElement('polyline', {
+      class: `bvb-chart_line is-${key}`,
+      points: points.join(' '),
+      fill: 'none',
+      stroke: color,
+      'stroke-width': '2',
+      'stroke-linejoin': 'round',
+      'vector-effect': 'non-scaling-stroke',
+    });
+    const title = createSvgElement('title', {});
+    title.textContent = OPTION_LABELS[key];
+    line.appendChild(title);
+    svg.appendChild(line);
+  });
+
+  return svg;
+};
+
+/**
+ * Renders a cumulative cost line chart into every `[bvb-chart="cumulative"]` container.
+ */
+export const renderCumulativeChart = (projection: CostProjection): void => {
+  const containers = document.querySelectorAll<HTMLElement>('[bvb-chart="cumulative"]');
+  containers.forEach((container) => {
+    container.querySelector(':scope > .bvb-chart_svg')?.remove();
+    if (!projection.years.length) return;
+    container.appendChild(buildChart(projection));
+  });
+};
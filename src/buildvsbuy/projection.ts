@@ -0,0 +1,78 @@
+import { calculateCosts, growUsers, inflateSalary } from './costs';
+import type { PricingConfig } from './pricing';
+import type { CalculatorState } from './types';
+
+export type YearlyCosts = {
+  build: number;
+  saas: number;
+  fusionauth: number;
+};
+
+export type YearProjection = {
+  year: number; // 1-based
+  users: number;
+  salary: number;
+  costs: YearlyCosts;
+  cumulative: YearlyCosts;
+};
+
+export type CostProjection = {
+  years: YearProjection[];
+  // First year in which FusionAuth's cumulative cost is at or below the alternative, `null` if never
+  breakEvenYear: {
+    build: number | null;
+    saas: number | null;
+  };
+};
+
+const findBreakEvenYear = (
+  years: YearProjection[],
+  alternative: Exclude<keyof YearlyCosts, 'fusionauth'>
+): number | null => {
+  const match = years.find(({ cumulative }) => cumulative.fusionauth <= cumulative[alternative]);
+  return match ? match.year : null;
+};
+
+/**
+ * Splits the calculator timeline into individual years.
+ * Each year's cumulative cost is the total of a timeline ending that year, so the last row matches
+ * the headline totals. Users grow and salaries inflate year over year by the state's percentages;
+ * one-time costs (initial development or transition, integration and migration work) land in
+ * year 1 only.
+ */
+export const projectCosts = (state: CalculatorState, pricing: PricingConfig): CostProjection => {
+  const years: YearProjection[] = [];
+  const previous: YearlyCosts = { build: 0, saas: 0, fusionauth: 0 };
+  const yearCount = Math.max(Math.floor(state.timeline), 0);
+
+  for (let year = 1; year <= yearCount; year += 1) {
+    const totals = calculateCosts({ ...state, timeline: year }, pricing);
+    const cumulative: YearlyCosts = {
+      build: totals.build.total,
+      saas: totals.saas.total,
+      fusionauth: totals.fusionauth.total,
+    };
+    const costs: YearlyCosts = {
+      build: cumulative.build - previous.build,
+      saas: cumulative.saas - previous.saas,
+      fusionauth: cumulative.fusionauth - previous.fusionauth,
+    };
+    Object.assign(previous, cumulative);
+
+    years.push({
+      year,
+      users: growUsers(state, year - 1),
+      salary: Math.round(inflateSalary(state, year - 1)),
+      costs,
+      cumulative,
+    });
+  }
+
+  return {
+    years,
+    breakEvenYear: {
+      build: findBreakEvenYear(years, 'build'),
+      saas: findBreakEvenYear(years, 'saas'),
+    },
+  };
+};
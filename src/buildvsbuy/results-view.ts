@@ -0,0 +1,279 @@
+import {
+  type BindingModel,
+  createBindingModel,
+  evaluateCondition,
+  formatDelta,
+  formatValue,
+  parseFormat,
+  resolvePath,
+} from './bindings';
+import { animateNumber, ensureMotionStyles, stopAnimation } from './motion';
+import type { CostProjection } from './projection';
+import type { CalculatorState, CostBreakdown } from './types';
+
+export type ResultsRoot = Document | HTMLElement;
+
+// Marks a container rendering its own results, e.g. a saved scenario in the comparison panel
+export const SCENARIO_ATTR = 'bvb-scenario';
+
+const BIND_ATTR = 'bvb-bind';
+const DELTA_ATTR = 'bvb-delta';
+const FORMAT_ATTR = 'bvb-format';
+const FALLBACK_ATTR = 'bvb-fallback';
+const SHOW_IF_ATTR = 'bvb-show-if';
+const BIND_ATTRS_ATTR = 'bvb-bind-attr';
+const ANIMATE_ATTR = 'bvb-animate';
+const CHANGE_ATTR = 'bvb-change';
+const BAR_ATTR = 'bvb-bar';
+const BAR_GROUP_ATTR = 'bvb-bar-group';
+
+type LegacyBinding = {
+  path: string;
+  format?: string;
+  fallback?: string;
+  // Shows the line's `.bvb-calculator_card_row` only when the expression holds
+  rowShowIf?: string;
+  showIf?: string;
+  attrs?: string;
+  animate?: boolean;
+};
+
+// The attributes pages were built with before `bvb-bind`, e.g. `[inhouse-value="total"]`.
+// `[inhouse-delta="total"]` shows the same line's difference to the comparison baseline and
+// `[inhouse-change="total"]` its change since the previous render.
+const LEGACY_BINDINGS: Record<string, Record<string, LegacyBinding>> = {
+  inhouse: {
+    total: { path: 'build.total', animate: true },
+    'initial-development': { path: 'build.initialDevelopment', rowShowIf: '!hasExistingAuth' },
+    'one-time-transition': { path: 'build.oneTimeTransition', rowShowIf: 'hasExistingAuth' },
+    'ongoing-maintenance': { path: 'build.ongoingMaintenance' },
+    'security-and-compliance': {
+      path: 'build.securityAndCompliance',
+      rowShowIf: '!hasExistingAuth',
+    },
+    'opportunity-cost': { path: 'build.opportunityCost', rowShowIf: '!hasExistingAuth' },
+  },
+  saas: {
+    total: { path: 'saas.total', animate: true },
+    'user-licensing': { path: 'saas.userLicensing' },
+    'integration-work': { path: 'saas.integrationWork' },
+    'ongoing-support': { path: 'saas.ongoingSupport' },
+    'migration-cost': { path: 'saas.migrationCost', rowShowIf: 'hasExistingAuth' },
+    plan: {
+      path: 'saas.plan.name',
+      format: 'text',
+      showIf: 'saas.plan',
+      attrs: 'data-plan:saas.plan.id',
+    },
+  },
+  fus: {
+    total: { path: 'fusionauth.total', animate: true },
+    licensing: { path: 'fusionauth.licensing' },
+    integration: { path: 'fusionauth.integration' },
+    maintenance: { path: 'fusionauth.maintenance' },
+    plan: {
+      path: 'fusionauth.plan.name',
+      format: 'text',
+      showIf: 'fusionauth.plan',
+      attrs: 'data-plan:fusionauth.plan.id',
+    },
+  },
+  general: {
+    timeline: { path: 'timeline', format: 'number' },
+    'total-savings': { path: 'savingsVsBuild', animate: true },
+    'break-even-year': { path: 'breakEvenYear.build', format: 'number', fallback: 'N/A' },
+  },
+};
+
+/**
+ * Elements matching the selector that belong to `root`: a scenario container only renders its own
+ * descendants, and the page never renders into scenario containers.
+ */
+const queryResults = (root: ResultsRoot, selector: string): HTMLElement[] => {
+  return Array.from(root.querySelectorAll<HTMLElement>(selector)).filter(
+    (el) => (el.closest<HTMLElement>(`[${SCENARIO_ATTR}]`) ?? document) === root
+  );
+};
+
+const setDefaultAttribute = (el: HTMLElement, name: string, value: string | undefined): void => {
+  if (value !== undefined && !el.hasAttribute(name)) el.setAttribute(name, value);
+};
+
+/**
+ * Rewrites legacy value attributes into the equivalent `bvb-bind` declarations, once per element.
+ * Explicit `bvb-*` attributes set in Webflow take precedence.
+ */
+const upgradeLegacyAttributes = (root: ResultsRoot): void => {
+  Object.entries(LEGACY_BINDINGS).forEach(([prefix, lines]) => {
+    queryResults(root, `[${prefix}-value], [${prefix}-delta], [${prefix}-change]`).forEach((el) => {
+      const kind = (['value', 'delta', 'change'] as const).find((k) =>
+        el.hasAttribute(`${prefix}-${k}`)
+      );
+      const binding = lines[el.getAttribute(`${prefix}-${kind}`) || ''];
+      if (!kind || !binding) return;
+
+      setDefaultAttribute(el, FORMAT_ATTR, binding.format ?? 'currency');
+      if (kind === 'delta') setDefaultAttribute(el, DELTA_ATTR, binding.path);
+      if (kind === 'change') setDefaultAttribute(el, CHANGE_ATTR, binding.path);
+      if (kind !== 'value') return;
+
+      setDefaultAttribute(el, BIND_ATTR, binding.path);
+      setDefaultAttribute(el, FALLBACK_ATTR, binding.fallback);
+      setDefaultAttribute(el, SHOW_IF_ATTR, binding.showIf);
+      setDefaultAttribute(el, BIND_ATTRS_ATTR, binding.attrs);
+      if (binding.animate) setDefaultAttribute(el, ANIMATE_ATTR, '');
+
+      const row = binding.rowShowIf ? el.closest<HTMLElement>('.bvb-calculator_card_row') : null;
+      if (row) setDefaultAttribute(row, SHOW_IF_ATTR, binding.rowShowIf);
+    });
+  });
+};
+
+const isAnimated = (el: HTMLElement): boolean => {
+  return el.hasAttribute(ANIMATE_ATTR) && el.getAttribute(ANIMATE_ATTR) !== 'off';
+};
+
+/**
+ * Shows a signed difference, or hides the element when there is none.
+ * `data-delta` is `increase`, `decrease` or `none` for styling.
+ */
+const setDelta = (el: HTMLElement, delta: number | null): void => {
+  if (delta === null) {
+    el.textContent = '';
+    el.style.display = 'none';
+    el.removeAttribute('data-delta');
+    return;
+  }
+  el.textContent = formatDelta(delta, parseFormat(el.getAttribute(FORMAT_ATTR)));
+  el.style.display = '';
+  el.setAttribute('data-delta', delta > 0 ? 'increase' : delta < 0 ? 'decrease' : 'none');
+};
+
+const getNumericDelta = (
+  model: BindingModel,
+  baseline: BindingModel | null,
+  path: string
+): number | null => {
+  const value = resolvePath(model, path);
+  const baselineValue = baseline ? resolvePath(baseline, path) : null;
+  if (typeof value !== 'number' || typeof baselineValue !== 'number') return null;
+  return value - baselineValue;
+};
+
+// `[bvb-bar="build.total"]` widths relative to the largest bar of their `[bvb-bar-group]`
+const renderBars = (root: ResultsRoot, model: BindingModel): void => {
+  const groups = new Map<Element | ResultsRoot, Array<{ el: HTMLElement; value: number }>>();
+  queryResults(root, `[${BAR_ATTR}]`).forEach((el) => {
+    const value = resolvePath(model, el.getAttribute(BAR_ATTR) || '');
+    const group = el.closest(`[${BAR_GROUP_ATTR}]`) ?? root;
+    const bars = groups.get(group) ?? [];
+    bars.push({ el, value: typeof value === 'number' ? Math.max(value, 0) : 0 });
+    groups.set(group, bars);
+  });
+  if (!groups.size) return;
+
+  ensureMotionStyles();
+  groups.forEach((bars) => {
+    const values = bars.map(({ value }) => value);
+    const max = Math.max(...values);
+    const min = Math.min(...values);
+    bars.forEach(({ el, value }) => {
+      const share = max > 0 ? value / max : 0;
+      el.style.width = `${(share * 100).toFixed(2)}%`;
+      // For bars styled on another axis, e.g. `height: calc(var(--bvb-bar-share) * 100%)`
+      el.style.setProperty('--bvb-bar-share', share.toFixed(4));
+      el.toggleAttribute('data-lowest', bars.length > 1 && value === min);
+    });
+  });
+};
+
+// `bvb-bind-attr="data-plan:saas.plan.id; title:saas.plan.name"`, removed when the value is empty
+const renderAttributeBindings = (el: HTMLElement, model: BindingModel): void => {
+  (el.getAttribute(BIND_ATTRS_ATTR) || '').split(';').forEach((pair) => {
+    const [name, path] = pair.split(':').map((part) => part.trim());
+    if (!name || !path) return;
+    const value = formatValue(resolvePath(model, path), parseFormat(el.getAttribute(FORMAT_ATTR)));
+    if (value) el.setAttribute(name, value);
+    else el.removeAttribute(name);
+  });
+};
+
+// Last model rendered per root, what `[bvb-change]` elements compare against
+const previousModels = new WeakMap<ResultsRoot, BindingModel>();
+
+/**
+ * Makes the next render of `root` show no `[bvb-change]` indicators, e.g. after a currency switch
+ * where every amount moves without any input having changed.
+ */
+export const resetResultChanges = (root: ResultsRoot): void => {
+  previousModels.delete(root);
+};
+
+/**
+ * Renders every binding of the page, or of a single scenario container:
+ * - `bvb-bind="build.securityAndCompliance"` sets the text, formatted by
+ *   `bvb-format="currency|number|percent|years|text"` and `bvb-fallback` for missing values.
+ *   With `bvb-animate`, numbers count up or down to their new value.
+ * - `bvb-show-if="hasExistingAuth"` shows the element only while the expression holds.
+ * - `bvb-bind-attr="data-plan:saas.plan.id"` sets attributes.
+ * - `bvb-change="build.total"` shows how much a value moved with the latest input.
+ * - `bvb-bar="build.total"` sizes a bar relative to the largest bar of its `[bvb-bar-group]`.
+ * Paths and expressions are resolved against the `BindingModel`. The legacy `[inhouse-value]`,
+ * `[saas-value]`, `[fus-value]` and `[general-value]` attributes keep working as shorthands,
+ * with the totals animated.
+ */
+export const renderResults = (
+  root: ResultsRoot,
+  state: CalculatorState,
+  costs: CostBreakdown,
+  projection: CostProjection
+): void => {
+  upgradeLegacyAttributes(root);
+  const model = createBindingModel(state, costs, projection);
+  const previous = previousModels.get(root) ?? null;
+  previousModels.set(root, model);
+
+  queryResults(root, `[${BIND_ATTR}]`).forEach((el) => {
+    const value = resolvePath(model, el.getAttribute(BIND_ATTR) || '');
+    const format = parseFormat(el.getAttribute(FORMAT_ATTR));
+    const fallback = el.getAttribute(FALLBACK_ATTR) ?? '';
+    if (typeof value === 'number' && format !== 'text' && isAnimated(el)) {
+      animateNumber(el, value, (current) => {
+        el.textContent = formatValue(current, format, fallback);
+      });
+      return;
+    }
+    stopAnimation(el);
+    el.textContent = formatValue(value, format, fallback);
+  });
+
+  queryResults(root, `[${BIND_ATTRS_ATTR}]`).forEach((el) => renderAttributeBindings(el, model));
+
+  queryResults(root, `[${SHOW_IF_ATTR}]`).forEach((el) => {
+    const visible = evaluateCondition(model, el.getAttribute(SHOW_IF_ATTR) || '');
+    el.style.display = visible ? '' : 'none';
+  });
+
+  // Unchanged values hide their indicator, it only reflects the latest input
+  queryResults(root, `[${CHANGE_ATTR}]`).forEach((el) => {
+    const delta = getNumericDelta(model, previous, el.getAttribute(CHANGE_ATTR) || '');
+    setDelta(el, delta ? delta : null);
+  });
+
+  renderBars(root, model);
+};
+
+/**
+ * Fills the `bvb-delta="<path>"` elements of a scenario container with the difference between
+ * its model and `baseline`, or hides them without a baseline.
+ */
+export const renderDeltas = (
+  root: HTMLElement,
+  model: BindingModel,
+  baseline: BindingModel | null
+): void => {
+  upgradeLegacyAttributes(root);
+  queryResults(root, `[${DELTA_ATTR}]`).forEach((el) => {
+    setDelta(el, getNumericDelta(model, baseline, el.getAttribute(DELTA_ATTR) || ''));
+  });
+};
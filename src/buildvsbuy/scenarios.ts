@@ -0,0 +1,278 @@
+import { trackEvent } from '$utils/analytics';
+
+import { type BindingModel, createBindingModel } from './bindings';
+import { validateCalculatorState } from './engine';
+import type { ExportSnapshot } from './export';
+import { formatNumber } from './format';
+import type { CostProjection } from './projection';
+import { renderDeltas, renderResults, SCENARIO_ATTR } from './results-view';
+import type { CalculatorState, CostBreakdown } from './types';
+
+export type SavedScenario = {
+  id: string;
+  name: string;
+  currency: string; // ISO 4217 code the salary and costs are expressed in
+  savedAt: number;
+  state: CalculatorState;
+  costs: CostBreakdown;
+  projection: CostProjection;
+};
+
+const STORAGE_KEY = 'bvb-scenarios';
+const MAX_SAVED_SCENARIOS = 10;
+const MAX_COMPARED_SCENARIOS = 3;
+
+const SCENARIO_CLONE_ATTR = 'data-scenario-clone';
+const COMPARE_SELECTOR = '[bvb-scenario-compare]';
+const LIST_SELECTOR = '[bvb-scenario-list]';
+const ITEM_ATTR = 'bvb-scenario-item';
+
+let scenarios: SavedScenario[] = [];
+// Ids of the scenarios shown side by side, in the order they were picked
+let compared: string[] = [];
+let getActiveCurrency = (): string => 'USD';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isSavedScenario = (value: unknown): value is SavedScenario => {
+  if (!isRecord(value)) return false;
+  const { id, name, currency, savedAt, state, costs, projection } = value;
+  return (
+    typeof id === 'string' &&
+    typeof name === 'string' &&
+    typeof currency === 'string' &&
+    typeof savedAt === 'number' &&
+    isRecord(state) &&
+    validateCalculatorState(state).length === 0 &&
+    isRecord(costs) &&
+    isRecord(costs.build) &&
+    isRecord(costs.saas) &&
+    isRecord(costs.fusionauth) &&
+    isRecord(projection) &&
+    Array.isArray(projection.years)
+  );
+};
+
+const readScenarios = (): SavedScenario[] => {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isSavedScenario) : [];
+  } catch {
+    return [];
+  }
+};
+
+const persistScenarios = (): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+  } catch {
+    // Storage may be unavailable (e.g. private mode), scenarios then last for this visit only
+  }
+};
+
+const createId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const describeScenario = ({ state }: SavedScenario): string => {
+  const years = `${state.timeline} ${state.timeline === 1 ? 'year' : 'years'}`;
+  const engineers = `${state.engineers} ${state.engineers === 1 ? 'engineer' : 'engineers'}`;
+  return `${engineers}, ${formatNumber(state.users)} users, ${years}`;
+};
+
+// Amounts are only comparable within one currency
+const isComparable = (scenario: SavedScenario): boolean => {
+  return scenario.currency === getActiveCurrency();
+};
+
+const getComparedScenarios = (): SavedScenario[] => {
+  return compared
+    .map((id) => scenarios.find((scenario) => scenario.id === id))
+    .filter((scenario): scenario is SavedScenario => !!scenario && isComparable(scenario));
+};
+
+const toModel = ({ state, costs, projection }: SavedScenario): BindingModel => {
+  return createBindingModel(state, costs, projection);
+};
+
+const fillFields = (el: HTMLElement, scenario: SavedScenario): void => {
+  const values: Record<string, string> = {
+    name: scenario.name,
+    summary: describeScenario(scenario),
+    currency: scenario.currency,
+  };
+  el.querySelectorAll<HTMLElement>('[scenario-field]').forEach((field) => {
+    const key = field.getAttribute('scenario-field') || '';
+    if (key in values) field.textContent = values[key];
+  });
+};
+
+const onClick = (el: HTMLElement | null, handler: () => void): void => {
+  el?.addEventListener('click', (e) => {
+    e.preventDefault();
+    handler();
+  });
+};
+
+/**
+ * Clones `template` once per item after removing the previous clones, like the year rows.
+ * The template stays in the DOM (hidden) so it can be cloned again on the next render.
+ */
+const renderClones = <T>(
+  template: HTMLElement,
+  items: T[],
+  fill: (clone: HTMLElement, item: T, index: number) => void
+): void => {
+  const parent = template.parentElement;
+  if (!parent) return;
+  parent.querySelectorAll(`:scope > [${SCENARIO_CLONE_ATTR}]`).forEach((el) => el.remove());
+  template.style.display = 'none';
+
+  let anchor = template;
+  items.forEach((item, index) => {
+    const clone = template.cloneNode(true) as HTMLElement;
+    clone.setAttribute(SCENARIO_CLONE_ATTR, '');
+    clone.style.display = '';
+    fill(clone, item, index);
+    anchor.after(clone);
+    anchor = clone;
+  });
+};
+
+const renderComparison = (): void => {
+  const columns = getComparedScenarios();
+  const [baseline] = columns;
+
+  document.querySelectorAll<HTMLElement>(COMPARE_SELECTOR).forEach((panel) => {
+    panel.setAttribute('data-scenario-count', String(columns.length));
+    const template = panel.querySelector<HTMLElement>(
+      `[${SCENARIO_ATTR}]:not([${SCENARIO_CLONE_ATTR}])`
+    );
+    if (!template) return;
+
+    renderClones(template, columns, (column, scenario, index) => {
+      column.setAttribute('data-scenario-id', scenario.id);
+      fillFields(column, scenario);
+      renderResults(column, scenario.state, scenario.costs, scenario.projection);
+      // The first column is the baseline the others are measured against
+      renderDeltas(column, toModel(scenario), index > 0 ? toModel(baseline) : null);
+      onClick(column.querySelector('[bvb-scenario-remove]'), () => toggleCompared(scenario.id));
+    });
+  });
+};
+
+const renderList = (): void => {
+  const full = getComparedScenarios().length >= MAX_COMPARED_SCENARIOS;
+
+  document.querySelectorAll<HTMLElement>(LIST_SELECTOR).forEach((list) => {
+    const template = list.querySelector<HTMLElement>(
+      `[${ITEM_ATTR}]:not([${SCENARIO_CLONE_ATTR}])`
+    );
+    if (!template) return;
+
+    renderClones(template, scenarios, (item, scenario) => {
+      const selected = compared.includes(scenario.id);
+      const comparable = isComparable(scenario);
+      item.setAttribute('data-scenario-id', scenario.id);
+      item.toggleAttribute('data-compared', selected && comparable);
+      fillFields(item, scenario);
+
+      const toggle = item.querySelector<HTMLElement>('[bvb-scenario-toggle]');
+      if (toggle) {
+        const disabled = !comparable || (full && !selected);
+        if (toggle instanceof HTMLInputElement) toggle.checked = selected && comparable;
+        else toggle.setAttribute('aria-pressed', String(selected && comparable));
+        toggle.toggleAttribute('disabled', disabled);
+        toggle.setAttribute('aria-disabled', String(disabled));
+        if (!comparable) toggle.title = `Saved in ${scenario.currency}`;
+        toggle.addEventListener(toggle instanceof HTMLInputElement ? 'change' : 'click', (e) => {
+          if (!(toggle instanceof HTMLInputElement)) e.preventDefault();
+          if (!disabled) toggleCompared(scenario.id);
+        });
+      }
+      onClick(item.querySelector('[bvb-scenario-delete]'), () => deleteScenario(scenario.id));
+    });
+  });
+
+  document.querySelectorAll<HTMLElement>('[bvb-scenario-empty]').forEach((el) => {
+    el.style.display = scenarios.length ? 'none' : '';
+  });
+};
+
+const render = (): void => {
+  renderList();
+  renderComparison();
+};
+
+const toggleCompared = (id: string): void => {
+  if (compared.includes(id)) compared = compared.filter((comparedId) => comparedId !== id);
+  else compared = [...getComparedScenarios().map((scenario) => scenario.id), id];
+  render();
+};
+
+const deleteScenario = (id: string): void => {
+  scenarios = scenarios.filter((scenario) => scenario.id !== id);
+  compared = compared.filter((comparedId) => comparedId !== id);
+  persistScenarios();
+  render();
+};
+
+const saveScenario = (snapshot: ExportSnapshot, nameInput: HTMLInputElement | null): void => {
+  const name = nameInput?.value.trim() || `Scenario ${scenarios.length + 1}`;
+  const scenario: SavedScenario = {
+    id: createId(),
+    name,
+    currency: snapshot.currency,
+    savedAt: Date.now(),
+    state: snapshot.state,
+    costs: snapshot.costs,
+    projection: snapshot.projection,
+  };
+
+  // The oldest scenarios make room, and leave the comparison with them
+  scenarios = [...scenarios, scenario].slice(-MAX_SAVED_SCENARIOS);
+  compared = [...getComparedScenarios().map(({ id }) => id), scenario.id].slice(
+    -MAX_COMPARED_SCENARIOS
+  );
+  persistScenarios();
+  if (nameInput) nameInput.value = '';
+  render();
+  trackEvent('buildvsbuy', 'calculator_scenario_saved', { count: scenarios.length });
+};
+
+/**
+ * Saves named snapshots of the calculator and compares up to three of them side by side.
+ * - `[bvb-scenario-save]` saves the current results, named after `input[bvb-scenario-name]`.
+ * - `[bvb-scenario-list]` clones its `[bvb-scenario-item]` template per saved scenario, with
+ *   `[bvb-scenario-toggle]` (checkbox or button) to compare it and `[bvb-scenario-delete]`.
+ * - `[bvb-scenario-compare]` clones its `[bvb-scenario]` template per compared scenario. Columns
+ *   render the same value attributes as the page, plus `[inhouse-delta]`-style differences to the
+ *   first column, and `[bvb-scenario-remove]` takes a column out of the comparison.
+ * - `[scenario-field="name|summary|currency"]` describes the scenario in items and columns.
+ * Only scenarios saved in the active currency can be compared.
+ */
+export const initializeScenarios = (getSnapshot: () => ExportSnapshot): void => {
+  getActiveCurrency = () => getSnapshot().currency;
+  scenarios = readScenarios();
+  compared = scenarios.slice(-MAX_COMPARED_SCENARIOS).map(({ id }) => id);
+
+  const nameInput = document.querySelector<HTMLInputElement>('input[bvb-scenario-name]');
+  document.querySelectorAll<HTMLElement>('[bvb-scenario-save]').forEach((button) => {
+    onClick(button, () => saveScenario(getSnapshot(), nameInput));
+  });
+  nameInput?.addEventListener('keydown', (e) => {
+    if (e.key !== 'Enter') return;
+    // Keep Webflow from submitting the surrounding form
+    e.preventDefault();
+    saveScenario(getSnapshot(), nameInput);
+  });
+
+  // Comparable scenarios depend on the active currency
+  document
+    .querySelector<HTMLSelectElement>('select[bvb-currency-select]')
+    ?.addEventListener('change', render);
+
+  render();
+};
@@ -0,0 +1,121 @@
+import type { CalculatorLinks } from './assessment-links';
+import type { AssessmentAnswers, Recommendation } from './types';
+
+export type RecommendationScores = Record<Recommendation, number>;
+
+export type AssessmentOption = {
+  value: string;
+  scores: RecommendationScores;
+  links: CalculatorLinks | null;
+};
+
+// Scores are interpolated linearly between `from` (at `min`) and `to` (at `max`)
+export type AssessmentScale = {
+  min: number;
+  max: number;
+  from: RecommendationScores;
+  to: RecommendationScores;
+};
+
+export type AssessmentQuestion = {
+  id: string;
+  weight: number;
+  options: AssessmentOption[];
+  scale: AssessmentScale | null;
+};
+
+export type RankedRecommendation = {
+  recommendation: Recommendation;
+  score: number;
+  share: number; // 0-1 portion of the positive score total
+};
+
+export type AssessmentResult = {
+  completed: boolean;
+  answeredCount: number;
+  questionCount: number;
+  yesCount: number;
+  recommendation: Recommendation;
+  confidence: number; // share of the top recommendation
+  ranking: RankedRecommendation[];
+};
+
+// Ranking order used to break ties
+export const RECOMMENDATIONS: Recommendation[] = ['fusionauth', 'saas', 'build'];
+
+export const ZERO_SCORES: RecommendationScores = { fusionauth: 0, saas: 0, build: 0 };
+
+// Legacy yes/no scoring: 4+ "yes" out of 5 favors FusionAuth, 2-3 SaaS, 0-1 building
+export const YES_SCORES: RecommendationScores = { fusionauth: 1, saas: 0.7, build: 0 };
+export const NO_SCORES: RecommendationScores = { fusionauth: 0, saas: 0.7, build: 1 };
+
+const interpolateScale = (scale: AssessmentScale, value: number): RecommendationScores => {
+  const clamped = Math.min(Math.max(value, scale.min), scale.max);
+  const ratio = scale.max === scale.min ? 1 : (clamped - scale.min) / (scale.max - scale.min);
+  const scores = { ...ZERO_SCORES };
+  RECOMMENDATIONS.forEach((rec) => {
+    scores[rec] = scale.from[rec] + (scale.to[rec] - scale.from[rec]) * ratio;
+  });
+  return scores;
+};
+
+export const getAnswerScores = (
+  question: AssessmentQuestion,
+  answer: string
+): RecommendationScores | null => {
+  const option = question.options.find((opt) => opt.value === answer);
+  if (option) return option.scores;
+
+  const value = Number(answer);
+  if (question.scale && answer.trim() !== '' && Number.isFinite(value)) {
+    return interpolateScale(question.scale, value);
+  }
+  return null;
+};
+
+/**
+ * Scores a set of answers against the questions, weighting each answer by its question's weight.
+ * Unanswered questions and answers that don't match any option are ignored.
+ */
+export const scoreAssessment = (
+  questions: AssessmentQuestion[],
+  currentAnswers: AssessmentAnswers
+): AssessmentResult => {
+  const totals = { ...ZERO_SCORES };
+  let answeredCount = 0;
+  let yesCount = 0;
+
+  questions.forEach((question) => {
+    const answer = currentAnswers[question.id];
+    if (answer === null || answer === undefined) return;
+    const scores = getAnswerScores(question, answer);
+    if (!scores) return;
+
+    answeredCount += 1;
+    if (answer === 'yes') yesCount += 1;
+    RECOMMENDATIONS.forEach((rec) => {
+      totals[rec] += scores[rec] * question.weight;
+    });
+  });
+
+  const positiveTotal = RECOMMENDATIONS.reduce((sum, rec) => sum + Math.max(totals[rec], 0), 0);
+  const ranking = RECOMMENDATIONS.map((recommendation) => ({
+    recommendation,
+    score: totals[recommendation],
+    share: positiveTotal > 0 ? Math.max(totals[recommendation], 0) / positiveTotal : 0,
+  })).sort(
+    (a, b) =>
+      b.score - a.score ||
+      RECOMMENDATIONS.indexOf(a.recommendation) - RECOMMENDATIONS.indexOf(b.recommendation)
+  );
+
+  return {
+    completed: questions.length > 0 && answeredCount === questions.length,
+    answeredCount,
+    questionCount: questions.length,
+    yesCount,
+    recommendation: ranking[0].recommendation,
+    confidence: ranking[0].share,
+    ranking,
+  };
+};
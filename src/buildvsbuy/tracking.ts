@@ -0,0 +1,74 @@
+import { trackEvent } from '$utils/analytics';
+import { debounce } from '$utils/debounce';
+
+import { getAssessmentAnswers, getAssessmentResult } from './assessment';
+import { SLIDER_NAMES } from './dom';
+import type { AssessmentResult } from './scoring';
+import type { AssessmentAnswers } from './types';
+
+type AssessmentChangeDetail = AssessmentResult & { answers: AssessmentAnswers };
+
+// Only report the value a visitor settles on, not every intermediate slider position
+const SLIDER_DEBOUNCE_MS = 800;
+const ASSESSMENT_DEBOUNCE_MS = 500;
+
+const track = (name: string, properties?: Record<string, unknown>) => {
+  trackEvent('buildvsbuy', name, properties);
+};
+
+const trackSliders = (): void => {
+  SLIDER_NAMES.forEach((name) => {
+    const input = document.querySelector<HTMLInputElement>(`input[name="${name}"]`);
+    if (!input) return;
+    const report = debounce((value: number) => {
+      track('calculator_slider_changed', { input: name, value });
+    }, SLIDER_DEBOUNCE_MS);
+    input.addEventListener('input', () => report(Number(input.value)));
+  });
+
+  const authCheckbox = document.querySelector<HTMLInputElement>('input[name="auth"]');
+  authCheckbox?.addEventListener('change', () => {
+    track('calculator_auth_toggled', { enabled: authCheckbox.checked });
+  });
+};
+
+const trackAssessment = (): void => {
+  // Answers restored from a shared link weren't given on this visit
+  let previousAnswers: AssessmentAnswers = getAssessmentAnswers();
+  const restored = getAssessmentResult();
+  let completedRecommendation: string | null = restored.completed ? restored.recommendation : null;
+
+  const report = debounce((detail: AssessmentChangeDetail) => {
+    Object.entries(detail.answers).forEach(([step, answer]) => {
+      if (answer === null || previousAnswers[step] === answer) return;
+      track('assessment_step_answered', {
+        step,
+        answer,
+        answered: detail.answeredCount,
+        total: detail.questionCount,
+      });
+    });
+    previousAnswers = detail.answers;
+
+    if (detail.completed && detail.recommendation !== completedRecommendation) {
+      completedRecommendation = detail.recommendation;
+      track('assessment_completed', {
+        recommendation: detail.recommendation,
+        confidence: Math.round(detail.confidence * 100) / 100,
+      });
+    }
+  }, ASSESSMENT_DEBOUNCE_MS);
+
+  document.addEventListener('bvb:assessment-change', (e) => {
+    report((e as CustomEvent<AssessmentChangeDetail>).detail);
+  });
+};
+
+/**
+ * Reports slider changes and assessment answers. Call it once the assessment is initialized, so
+ * answers restored from the URL aren't reported as new.
+ */
+export const initializeCalculatorTracking = (): void => {
+  trackSliders();
+  trackAssessment();
+};
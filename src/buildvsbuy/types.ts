@@ -0,0 +1,49 @@
+export type CalculatorState = {
+  engineers: number;
+  salary: number; // base salary in the active currency
+  users: number; // user volume
+  timeline: number; // years
+  hasExistingAuth: boolean;
+  userGrowth: number; // annual user growth, percent
+  salaryInflation: number; // annual salary inflation, percent
+  complianceMultiplier: number; // scales build security and compliance cost, set by the assessment
+};
+
+export type SelectedPlan = {
+  id: string;
+  name: string;
+};
+
+export type CostBreakdown = {
+  build: {
+    total: number;
+    initialDevelopment: number;
+    ongoingMaintenance: number;
+    securityAndCompliance: number;
+    opportunityCost: number;
+    oneTimeTransition: number;
+  };
+  saas: {
+    total: number;
+    userLicensing: number;
+    integrationWork: number; // includes migration cost when applicable
+    ongoingSupport: number;
+    migrationCost: number;
+    plan: SelectedPlan | null; // `null` when priced at the flat per-user rate
+  };
+  fusionauth: {
+    total: number;
+    licensing: number;
+    integration: number;
+    maintenance: number;
+    plan: SelectedPlan | null; // `null` when priced at the flat per-user rate
+  };
+  savingsVsBuild: number;
+};
+
+// Option value ('yes', 'no' or a `[step-option]` value) or a scale value, `null` until answered
+export type AssessmentAnswer = string | null;
+// Keyed by the step's `step` attribute
+export type AssessmentAnswers = Record<string, AssessmentAnswer>;
+
+export type Recommendation = 'fusionauth' | 'saas' | 'build';
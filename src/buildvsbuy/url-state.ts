@@ -0,0 +1,159 @@
+import { copyWithFeedback } from '$utils/clipboard';
+
+import { DEFAULT_CALCULATOR_STATE } from './engine';
+import type { AssessmentAnswers, CalculatorState } from './types';
+
+// Query param -> range input name
+const RANGE_PARAMS = {
+  engineers: 'engineers',
+  salary: 'salary',
+  volume: 'volume',
+  timeline: 'timeline',
+  growth: 'growth',
+  inflation: 'inflation',
+} as const;
+
+const AUTH_PARAM = 'auth';
+const CURRENCY_PARAM = 'currency';
+const CURRENCY_SELECT_SELECTOR = 'select[bvb-currency-select]';
+const ANSWER_PARAM_PREFIX = 'q';
+
+const clampToInput = (input: HTMLInputElement, value: number): number => {
+  const min = input.min !== '' ? Number(input.min) : -Infinity;
+  const max = input.max !== '' ? Number(input.max) : Infinity;
+  return Math.min(Math.max(value, min), max);
+};
+
+// yes/no are shortened in links, any other option or scale value is kept as-is
+const encodeAnswer = (value: string): string => {
+  if (value === 'yes') return 'y';
+  if (value === 'no') return 'n';
+  return value;
+};
+
+const decodeAnswer = (value: string): string => {
+  if (value === 'y') return 'yes';
+  if (value === 'n') return 'no';
+  return value;
+};
+
+/**
+ * Applies the currency from the current URL to the `[bvb-currency-select]` selector.
+ * Runs before the other inputs are restored since salary values are expressed in that currency.
+ */
+export const restoreCurrencyFromUrl = (): void => {
+  const currency = new URLSearchParams(window.location.search).get(CURRENCY_PARAM);
+  const select = document.querySelector<HTMLSelectElement>(CURRENCY_SELECT_SELECTOR);
+  if (!currency || !select) return;
+
+  const code = currency.trim().toUpperCase();
+  const option = Array.from(select.options).find((opt) => opt.value.toUpperCase() === code);
+  if (option) select.value = option.value;
+};
+
+/**
+ * Applies calculator inputs from the current URL.
+ * Values that don't parse are ignored, numeric values are clamped to the input's min/max.
+ */
+export const restoreStateFromUrl = (): void => {
+  const params = new URLSearchParams(window.location.search);
+
+  Object.entries(RANGE_PARAMS).forEach(([param, name]) => {
+    const raw = params.get(param);
+    if (raw === null || raw.trim() === '') return;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) return;
+
+    const input = document.querySelector<HTMLInputElement>(`input[name="${name}"]`);
+    if (!input) return;
+    input.value = String(clampToInput(input, value));
+  });
+
+  const auth = params.get(AUTH_PARAM);
+  const authCheckbox = document.querySelector<HTMLInputElement>('input[name="auth"]');
+  if (authCheckbox && (auth === '1' || auth === '0')) {
+    authCheckbox.checked = auth === '1';
+  }
+};
+
+/**
+ * Reads the answers to the given steps (`q<step>=<value>`) from the current URL. Only known steps
+ * are read, so other params starting with `q` (e.g. `quantity`) aren't mistaken for answers.
+ * Answers are validated against the steps on the page when the assessment initializes.
+ */
+export const readAnswersFromUrl = (stepIds: string[]): AssessmentAnswers => {
+  const params = new URLSearchParams(window.location.search);
+  const answers: AssessmentAnswers = {};
+  stepIds.forEach((id) => {
+    const value = params.get(`${ANSWER_PARAM_PREFIX}${id}`);
+    if (value) answers[id] = decodeAnswer(value);
+  });
+  return answers;
+};
+
+const setOptionalParam = (
+  searchParams: URLSearchParams,
+  param: string,
+  value: number,
+  defaultValue: number
+): void => {
+  if (value === defaultValue) searchParams.delete(param);
+  else searchParams.set(param, String(value));
+};
+
+/**
+ * Builds the canonical URL for a calculator scenario, preserving unrelated query params.
+ */
+export const buildStateUrl = (state: CalculatorState, answers: AssessmentAnswers): string => {
+  const url = new URL(window.location.href);
+  const { searchParams } = url;
+
+  searchParams.set('engineers', String(state.engineers));
+  searchParams.set('salary', String(state.salary));
+  searchParams.set('volume', String(state.users));
+  searchParams.set('timeline', String(state.timeline));
+  // Growth and inflation are opt-in refinements, so links without them stay short
+  setOptionalParam(searchParams, 'growth', state.userGrowth, DEFAULT_CALCULATOR_STATE.userGrowth);
+  setOptionalParam(
+    searchParams,
+    'inflation',
+    state.salaryInflation,
+    DEFAULT_CALCULATOR_STATE.salaryInflation
+  );
+  searchParams.set(AUTH_PARAM, state.hasExistingAuth ? '1' : '0');
+
+  const currencySelect = document.querySelector<HTMLSelectElement>(CURRENCY_SELECT_SELECTOR);
+  if (currencySelect?.value) searchParams.set(CURRENCY_PARAM, currencySelect.value);
+
+  Object.entries(answers).forEach(([id, answer]) => {
+    const param = `${ANSWER_PARAM_PREFIX}${id}`;
+    if (answer) searchParams.set(param, encodeAnswer(answer));
+    else searchParams.delete(param);
+  });
+
+  return url.toString();
+};
+
+export const writeStateToUrl = (state: CalculatorState, answers: AssessmentAnswers): void => {
+  const next = buildStateUrl(state, answers);
+  if (next === window.location.href) return;
+  try {
+    window.history.replaceState(window.history.state, '', next);
+  } catch {
+    // Some embeds (e.g. sandboxed iframes) disallow history updates
+  }
+};
+
+/**
+ * Wires `[bvb-share]` buttons to copy the current scenario link.
+ * The button gets `data-copied="true"` for a short moment after a successful copy.
+ */
+export const initializeShareButtons = (getUrl: () => string): void => {
+  const buttons = document.querySelectorAll<HTMLElement>('[bvb-share]');
+  buttons.forEach((button) => {
+    button.addEventListener('click', (e) => {
+      e.preventDefault();
+      copyWithFeedback(button, getUrl());
+    });
+  });
+};
@@ -0,0 +1,176 @@
+import type { FaqItemElements, ScopeRoot } from './types';
+
+/**
+ * `native` toggles the answer panel itself. `webflow` keeps the designer's click interaction and
+ * only tracks its state, opted into with `faq-accordion="webflow"` on the container or body.
+ */
+export type AccordionMode = 'native' | 'webflow';
+
+export type Accordion = {
+  isOpen: (els: FaqItemElements) => boolean;
+  open: (els: FaqItemElements) => void;
+  close: (els: FaqItemElements) => void;
+  destroy: () => void;
+};
+
+/** Called whenever an item opens or closes, `userInitiated` for visitor clicks and key presses. */
+export type AccordionToggleHandler = (
+  els: FaqItemElements,
+  open: boolean,
+  userInitiated: boolean
+) => void;
+
+export const OPEN_CLASS = 'is-open';
+const PANEL_ATTR = 'faq-accordion-panel';
+const ID_PREFIX = 'faq-accordion-';
+
+// Guards against two scopes binding the same question when containers are re-initialized
+const boundQuestions = new WeakSet<HTMLElement>();
+let idCounter = 0;
+
+export const getAccordionMode = (root: ScopeRoot): AccordionMode => {
+  const el = root instanceof HTMLElement ? root : document.body;
+  return el.closest('[faq-accordion]')?.getAttribute('faq-accordion') === 'webflow'
+    ? 'webflow'
+    : 'native';
+};
+
+const ensureId = (el: HTMLElement, suffix: string): string => {
+  if (!el.id) {
+    idCounter += 1;
+    el.id = `${ID_PREFIX}${idCounter}-${suffix}`;
+  }
+  return el.id;
+};
+
+// Webflow wraps the rich text in an animated container, which is what has to collapse
+const getPanel = (els: FaqItemElements): HTMLElement | null => {
+  return els.item.querySelector<HTMLElement>('.bvb-faq-item_answer') ?? els.answer;
+};
+
+const isElementVisible = (el: HTMLElement): boolean => {
+  const style = window.getComputedStyle(el);
+  if (style.display === 'none' || style.visibility === 'hidden') return false;
+  const rect = el.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0;
+};
+
+/**
+ * Turns `.bvb-faq-item` elements into an accessible accordion: questions become buttons with
+ * `aria-expanded`/`aria-controls`, answers become labelled regions, and questions support
+ * Enter/Space to toggle plus Arrow Up/Down, Home and End to move between them.
+ */
+export const createAccordion = (
+  items: FaqItemElements[],
+  mode: AccordionMode,
+  onToggle: AccordionToggleHandler
+): Accordion => {
+  const state = new Map<HTMLElement, boolean>();
+  const cleanups: Array<() => void> = [];
+  const bound = items.filter(
+    (els): els is FaqItemElements & { questionWrapper: HTMLElement } =>
+      !!els.questionWrapper && !boundQuestions.has(els.questionWrapper)
+  );
+
+  const render = (els: FaqItemElements): void => {
+    const open = state.get(els.item) ?? false;
+    els.questionWrapper?.setAttribute('aria-expanded', String(open));
+    els.item.classList.toggle(OPEN_CLASS, open);
+    if (mode !== 'native') return;
+
+    const panel = getPanel(els);
+    if (!panel) return;
+    panel.hidden = !open;
+    // Drop the collapsed height Webflow interactions may have left inline
+    if (open) panel.style.removeProperty('height');
+  };
+
+  const setOpen = (els: FaqItemElements, open: boolean, userInitiated: boolean): void => {
+    if ((state.get(els.item) ?? false) === open) return;
+    state.set(els.item, open);
+    render(els);
+    onToggle(els, open, userInitiated);
+  };
+
+  const change = (els: FaqItemElements, open: boolean, userInitiated: boolean): void => {
+    if (!els.questionWrapper || (state.get(els.item) ?? false) === open) return;
+    setOpen(els, open, userInitiated);
+    // Let the Webflow interaction animate, the click handler skips these untrusted clicks
+    if (mode === 'webflow') els.questionWrapper.click();
+  };
+
+  const focusQuestion = (from: HTMLElement, key: string): void => {
+    const questions = bound.map(({ questionWrapper }) => questionWrapper).filter(isElementVisible);
+    const index = questions.indexOf(from);
+    if (index === -1) return;
+
+    let next = index;
+    if (key === 'ArrowDown') next = (index + 1) % questions.length;
+    else if (key === 'ArrowUp') next = (index - 1 + questions.length) % questions.length;
+    else if (key === 'Home') next = 0;
+    else if (key === 'End') next = questions.length - 1;
+    questions[next]?.focus();
+  };
+
+  bound.forEach((els) => {
+    const { questionWrapper: question } = els;
+    boundQuestions.add(question);
+
+    const panel = getPanel(els);
+    const initiallyOpen =
+      mode === 'native'
+        ? els.item.classList.contains(OPEN_CLASS)
+        : !!panel && isElementVisible(panel);
+    state.set(els.item, initiallyOpen);
+
+    const isButton = question instanceof HTMLButtonElement;
+    if (!isButton) {
+      question.setAttribute('role', 'button');
+      if (!question.hasAttribute('tabindex')) question.tabIndex = 0;
+    }
+    if (panel) {
+      question.setAttribute('aria-controls', ensureId(panel, 'panel'));
+      panel.setAttribute('role', 'region');
+      panel.setAttribute('aria-labelledby', ensureId(question, 'question'));
+      if (mode === 'native') panel.setAttribute(PANEL_ATTR, '');
+    }
+    render(els);
+
+    const onClick = (e: MouseEvent) => {
+      // Simulated clicks only drive the Webflow interaction, our own state is already updated
+      if (!e.isTrusted && mode === 'webflow') return;
+      setOpen(els, !state.get(els.item), e.isTrusted);
+    };
+
+    const onKeydown = (e: KeyboardEvent) => {
+      if (e.target !== question) return;
+      if (['ArrowDown', 'ArrowUp', 'Home', 'End'].includes(e.key)) {
+        e.preventDefault();
+        focusQuestion(question, e.key);
+        return;
+      }
+      // Buttons already turn Enter and Space into clicks
+      if (!isButton && (e.key === 'Enter' || e.key === ' ')) {
+        e.preventDefault();
+        change(els, !state.get(els.item), true);
+      }
+    };
+
+    question.addEventListener('click', onClick);
+    question.addEventListener('keydown', onKeydown);
+    cleanups.push(() => {
+      question.removeEventListener('click', onClick);
+      question.removeEventListener('keydown', onKeydown);
+      boundQuestions.delete(question);
+    });
+  });
+
+  return {
+    isOpen: (els) => state.get(els.item) ?? false,
+    open: (els) => change(els, true, false),
+    close: (els) => change(els, false, false),
+    destroy: () => cleanups.forEach((cleanup) => cleanup()),
+  };
+};
+
+export const ACCORDION_STYLES = `[${PANEL_ATTR}][hidden]{ display: none !important; }`;
@@ -0,0 +1,196 @@
+import type { FaqItemElements } from './types';
+
+export type Suggestion =
+  | { kind: 'question'; label: string; els: FaqItemElements }
+  | { kind: 'recent'; label: string };
+
+export type AutocompleteOptions = {
+  getSuggestions: (query: string) => Suggestion[];
+  onSelect: (suggestion: Suggestion) => void;
+};
+
+const AUTOCOMPLETE_CLASS = 'faq-autocomplete';
+const OPTION_CLASS = 'faq-autocomplete_option';
+const HEADING_CLASS = 'faq-autocomplete_heading';
+const ACTIVE_CLASS = 'is-active';
+const COMBOBOX_ATTRS = [
+  'role',
+  'aria-autocomplete',
+  'aria-controls',
+  'aria-expanded',
+  'aria-activedescendant',
+];
+
+const STORAGE_KEY = 'faq-recent-searches';
+const MAX_RECENT_SEARCHES = 5;
+
+let listboxCounter = 0;
+
+export const readRecentSearches = (): string[] => {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((q): q is string => typeof q === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecentSearch = (query: string): void => {
+  const q = query.trim();
+  if (!q) return;
+  const others = readRecentSearches().filter((recent) => recent !== q);
+  const next = [q, ...others].slice(0, MAX_RECENT_SEARCHES);
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Storage may be unavailable (e.g. private mode), suggestions then skip recent searches
+  }
+};
+
+const ensurePositionedParent = (input: HTMLElement): void => {
+  const parent = input.parentElement;
+  if (parent && window.getComputedStyle(parent).position === 'static') {
+    parent.style.position = 'relative';
+  }
+};
+
+/**
+ * Adds a suggestion listbox under a search input, following the ARIA combobox pattern.
+ * Arrow keys move through suggestions, Enter picks the active one and Escape closes the panel.
+ * Returns a function removing the panel and its listeners.
+ */
+export const attachAutocomplete = (
+  input: HTMLInputElement,
+  { getSuggestions, onSelect }: AutocompleteOptions
+): (() => void) => {
+  listboxCounter += 1;
+  const listbox = document.createElement('ul');
+  listbox.id = `faq-autocomplete-${listboxCounter}`;
+  listbox.className = AUTOCOMPLETE_CLASS;
+  listbox.setAttribute('role', 'listbox');
+  listbox.hidden = true;
+  ensurePositionedParent(input);
+  input.insertAdjacentElement('afterend', listbox);
+
+  input.setAttribute('role', 'combobox');
+  input.setAttribute('aria-autocomplete', 'list');
+  input.setAttribute('aria-controls', listbox.id);
+  input.setAttribute('aria-expanded', 'false');
+  input.setAttribute('autocomplete', 'off');
+
+  let suggestions: Suggestion[] = [];
+  let activeIndex = -1;
+
+  const getOptionEls = () => Array.from(listbox.querySelectorAll<HTMLElement>(`.${OPTION_CLASS}`));
+
+  const setActive = (index: number): void => {
+    activeIndex = index;
+    getOptionEls().forEach((el, i) => {
+      const active = i === index;
+      el.classList.toggle(ACTIVE_CLASS, active);
+      el.setAttribute('aria-selected', String(active));
+      if (active) el.scrollIntoView({ block: 'nearest' });
+    });
+    const activeEl = getOptionEls()[index];
+    if (activeEl) input.setAttribute('aria-activedescendant', activeEl.id);
+    else input.removeAttribute('aria-activedescendant');
+  };
+
+  const close = (): void => {
+    listbox.hidden = true;
+    input.setAttribute('aria-expanded', 'false');
+    setActive(-1);
+  };
+
+  const select = (suggestion: Suggestion): void => {
+    close();
+    onSelect(suggestion);
+  };
+
+  const render = (): void => {
+    suggestions = getSuggestions(input.value);
+    listbox.replaceChildren();
+
+    if (!suggestions.length) {
+      close();
+      return;
+    }
+
+    if (suggestions[0].kind === 'recent') {
+      const heading = document.createElement('li');
+      heading.className = HEADING_CLASS;
+      heading.setAttribute('role', 'presentation');
+      heading.textContent = 'Recent searches';
+      listbox.appendChild(heading);
+    }
+
+    suggestions.forEach((suggestion, i) => {
+      const option = document.createElement('li');
+      option.id = `${listbox.id}-option-${i}`;
+      option.className = OPTION_CLASS;
+      option.setAttribute('role', 'option');
+      option.setAttribute('aria-selected', 'false');
+      option.setAttribute('data-kind', suggestion.kind);
+      option.textContent = suggestion.label;
+      // Keep focus in the input so the listbox doesn't close on blur before the click lands
+      option.addEventListener('mousedown', (e) => e.preventDefault());
+      option.addEventListener('click', () => select(suggestion));
+      listbox.appendChild(option);
+    });
+
+    listbox.hidden = false;
+    input.setAttribute('aria-expanded', 'true');
+    setActive(-1);
+  };
+
+  const onKeydown = (e: KeyboardEvent): void => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (listbox.hidden) {
+        render();
+        return;
+      }
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      const count = suggestions.length;
+      setActive(activeIndex === -1 && step < 0 ? count - 1 : (activeIndex + step + count) % count);
+      return;
+    }
+
+    if (e.key === 'Escape' && !listbox.hidden) {
+      e.preventDefault();
+      close();
+      return;
+    }
+
+    // Without an active suggestion Enter keeps stepping through search matches
+    if (e.key === 'Enter' && !listbox.hidden && suggestions[activeIndex]) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      select(suggestions[activeIndex]);
+    }
+  };
+
+  const onBlur = () => close();
+
+  input.addEventListener('keydown', onKeydown);
+  input.addEventListener('input', render);
+  input.addEventListener('focus', render);
+  input.addEventListener('blur', onBlur);
+
+  return () => {
+    input.removeEventListener('keydown', onKeydown);
+    input.removeEventListener('input', render);
+    input.removeEventListener('focus', render);
+    input.removeEventListener('blur', onBlur);
+    COMBOBOX_ATTRS.forEach((name) => input.removeAttribute(name));
+    listbox.remove();
+  };
+};
+
+export const AUTOCOMPLETE_STYLES = `
+  .${AUTOCOMPLETE_CLASS}{ position: absolute; left: 0; right: 0; top: 100%; z-index: 10; margin: 4px 0 0; padding: 4px 0; list-style: none; background: #fff; border: 1px solid var(--indigo-100); border-radius: 8px; box-shadow: 0 8px 24px rgba(0,0,0,.08); max-height: 20rem; overflow-y: auto; }
+  .${AUTOCOMPLETE_CLASS}[hidden]{ display: none; }
+  .${OPTION_CLASS}{ padding: .5em 1em; cursor: pointer; }
+  .${OPTION_CLASS}.${ACTIVE_CLASS}, .${OPTION_CLASS}:hover{ background: var(--indigo-100); }
+  .${HEADING_CLASS}{ padding: .25em 1em; font-size: .75em; text-transform: uppercase; opacity: .6; }
+`;
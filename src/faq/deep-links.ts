@@ -0,0 +1,100 @@
+import { copyWithFeedback } from '$utils/clipboard';
+
+import { foldText } from './search';
+import type { FaqItemElements } from './types';
+
+const ANCHOR_PREFIX = 'faq-';
+const QUERY_PARAM = 'faq';
+const COPY_LINK_SELECTOR = '[faq-copy-link]';
+
+export const slugify = (text: string): string => {
+  return foldText(text)
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Gives every item a `faq-<slug>` id derived from its question, e.g. `#faq-do-you-support-saml`.
+ * Ids already set in Webflow are kept, and duplicate questions get a numeric suffix.
+ */
+export const assignItemAnchors = (items: FaqItemElements[]): void => {
+  items.forEach(({ item, questionTitle }) => {
+    if (item.id) return;
+    const slug = slugify(questionTitle?.textContent || '');
+    if (!slug) return;
+
+    const base = `${ANCHOR_PREFIX}${slug}`;
+    let id = base;
+    for (let n = 2; document.getElementById(id); n++) id = `${base}-${n}`;
+    item.id = id;
+  });
+};
+
+// Malformed escapes (e.g. `#%E0%A4%A`) can't be decoded, the hash is then matched as typed
+const readHashId = (): string => {
+  const hash = window.location.hash.slice(1);
+  try {
+    return decodeURIComponent(hash);
+  } catch {
+    return hash;
+  }
+};
+
+export const findLinkedItem = (items: FaqItemElements[]): FaqItemElements | null => {
+  const id = readHashId();
+  if (!id) return null;
+  return items.find(({ item }) => item.id === id) ?? null;
+};
+
+export const readQueryFromUrl = (): string => {
+  return new URLSearchParams(window.location.search).get(QUERY_PARAM)?.trim() ?? '';
+};
+
+/**
+ * Mirrors the search query in `?faq=` so the current search can be shared or reloaded.
+ */
+export const writeQueryToUrl = (query: string): void => {
+  const url = new URL(window.location.href);
+  if (query) url.searchParams.set(QUERY_PARAM, query);
+  else url.searchParams.delete(QUERY_PARAM);
+
+  const next = url.toString();
+  if (next === window.location.href) return;
+  try {
+    window.history.replaceState(window.history.state, '', next);
+  } catch {
+    // Some embeds (e.g. sandboxed iframes) disallow history updates
+  }
+};
+
+const getItemUrl = (item: HTMLElement): string => {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(QUERY_PARAM);
+  url.hash = item.id;
+  return url.toString();
+};
+
+/**
+ * Wires `[faq-copy-link]` elements inside items to copy a link to their item.
+ * The element gets `data-copied="true"` for a short moment after a successful copy.
+ * Returns a function removing the listeners.
+ */
+export const initializeCopyLinks = (items: FaqItemElements[]): (() => void) => {
+  const cleanups: Array<() => void> = [];
+
+  items.forEach(({ item }) => {
+    item.querySelectorAll<HTMLElement>(COPY_LINK_SELECTOR).forEach((button) => {
+      const onClick = (e: MouseEvent) => {
+        e.preventDefault();
+        // The button usually sits in the question, which would toggle the item
+        e.stopPropagation();
+        if (item.id) copyWithFeedback(button, getItemUrl(item));
+      };
+
+      button.addEventListener('click', onClick);
+      cleanups.push(() => button.removeEventListener('click', onClick));
+    });
+  });
+
+  return () => cleanups.forEach((cleanup) => cleanup());
+};
@@ -0,0 +1,17 @@
+import type { ScopeRoot } from './types';
+
+export const CONTAINER_SELECTOR = '[faq-container]';
+
+/**
+ * Queries elements that belong to `root` itself, skipping those inside a nested `[faq-container]`
+ * so page-level search never reaches into a block that has its own scope.
+ */
+export const queryScoped = <T extends HTMLElement = HTMLElement>(
+  root: ScopeRoot,
+  selector: string
+): T[] => {
+  const owner = root instanceof HTMLElement ? root : null;
+  return Array.from(root.querySelectorAll<T>(selector)).filter(
+    (el) => el.closest(CONTAINER_SELECTOR) === owner
+  );
+};
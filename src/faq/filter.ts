@@ -0,0 +1,59 @@
+import { queryScoped } from './dom';
+import type { FaqItemElements, ScopeRoot } from './types';
+
+export const FILTER_HIDDEN_CLASS = 'faq-search-hidden';
+
+const CATEGORY_SELECTOR = '[faq-category]';
+const COUNT_SELECTOR = '[faq-results-count]';
+const EMPTY_STATE_SELECTOR = '[faq-no-results]';
+
+const setHidden = (el: HTMLElement, hidden: boolean): void => {
+  el.classList.toggle(FILTER_HIDDEN_CLASS, hidden);
+};
+
+const formatResultCount = (template: string, count: number): string => {
+  if (template.includes('{count}')) return template.replace('{count}', String(count));
+  return `${count} ${count === 1 ? 'result' : 'results'}`;
+};
+
+/**
+ * Hides the `[faq-no-results]` empty state and `[faq-results-count]` counter until a filter runs.
+ */
+export const initializeFilterElements = (root: ScopeRoot): void => {
+  queryScoped(root, EMPTY_STATE_SELECTOR).forEach((el) => setHidden(el, true));
+  queryScoped(root, COUNT_SELECTOR).forEach((el) => {
+    if (!el.hasAttribute('aria-live')) el.setAttribute('aria-live', 'polite');
+    setHidden(el, true);
+  });
+};
+
+/**
+ * Shows only the matching items, hiding `[faq-category]` sections left without any, and updates
+ * the scope's result counter and empty state. Pass `null` to restore everything.
+ */
+export const applyFilter = (
+  root: ScopeRoot,
+  items: FaqItemElements[],
+  matches: FaqItemElements[] | null
+): void => {
+  const visible = matches ? new Set(matches.map(({ item }) => item)) : null;
+  items.forEach(({ item }) => setHidden(item, !!visible && !visible.has(item)));
+
+  queryScoped(root, CATEGORY_SELECTOR).forEach((category) => {
+    const categoryItems = Array.from(category.querySelectorAll<HTMLElement>('.bvb-faq-item'));
+    const isEmpty = !!visible && !categoryItems.some((item) => visible.has(item));
+    setHidden(category, isEmpty);
+  });
+
+  const count = matches?.length ?? 0;
+  queryScoped(root, COUNT_SELECTOR).forEach((el) => {
+    // e.g. `faq-results-count="{count} matching questions"`, defaults to "3 results"
+    el.textContent = formatResultCount(el.getAttribute('faq-results-count') || '', count);
+    el.setAttribute('data-count', String(count));
+    setHidden(el, !matches);
+  });
+
+  queryScoped(root, EMPTY_STATE_SELECTOR).forEach((el) => {
+    setHidden(el, !matches || count > 0);
+  });
+};
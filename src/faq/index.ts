@@ -1,23 +1,89 @@
-type FaqItemElements = {
-  item: HTMLElement;
-  questionWrapper: HTMLElement | null;
-  questionTitle: HTMLElement | null;
-  answer: HTMLElement | null;
+import { initializeAnalytics, trackEvent } from '$utils/analytics';
+import { debounce } from '$utils/debounce';
+
+import { type Accordion, ACCORDION_STYLES, createAccordion, getAccordionMode } from './accordion';
+import {
+  attachAutocomplete,
+  AUTOCOMPLETE_STYLES,
+  readRecentSearches,
+  saveRecentSearch,
+  type Suggestion,
+} from './autocomplete';
+import {
+  assignItemAnchors,
+  findLinkedItem,
+  initializeCopyLinks,
+  readQueryFromUrl,
+  writeQueryToUrl,
+} from './deep-links';
+import { CONTAINER_SELECTOR, queryScoped } from './dom';
+import { applyFilter, FILTER_HIDDEN_CLASS, initializeFilterElements } from './filter';
+import { ACTIVE_MATCH_CLASS, attachNavigationButtons, createMatchNavigator } from './navigation';
+import {
+  createSearchDocument,
+  parseQuery,
+  scoreDocument,
+  type SearchDocument,
+  searchDocuments,
+  splitWords,
+  wordMatchesTerms,
+} from './search';
+import { syncStructuredData } from './structured-data';
+import {
+  configureTelemetry,
+  flushTelemetry,
+  recordItemOpened,
+  recordSearch,
+  recordSearchCleared,
+  type TelemetryOptions,
+} from './telemetry';
+import {
+  hideTelemetryOverlay,
+  isTelemetryDebugEnabled,
+  showTelemetryOverlay,
+} from './telemetry-overlay';
+import type { FaqItemElements, ScopeRoot } from './types';
+
+type OpenSource = 'click' | 'search' | 'link' | 'suggestion';
+
+type FaqScope = {
+  root: ScopeRoot;
+  items: FaqItemElements[];
+  // Items this scope's search opened, closed again once they stop matching
+  searchOpenedItems: Set<HTMLElement>;
+  accordion: Accordion;
+  cleanups: Array<() => void>;
+};
+
+export type FaqSearchApi = {
+  /**
+   * (Re)initializes the page-level scope (for `document`) and every `[faq-container]` in `root`,
+   * e.g. after Webflow CMS pagination or tabs injected new items.
+   */
+  init: (root?: ScopeRoot) => void;
+  /** Removes listeners, highlights and filtering from the scopes in `root`. */
+  destroy: (root?: ScopeRoot) => void;
+  /** Sets the search telemetry endpoint and/or batch callback, see `TelemetryOptions`. */
+  configureTelemetry: (options: TelemetryOptions) => void;
+  flushTelemetry: () => void;
+  showTelemetryOverlay: () => void;
+  hideTelemetryOverlay: () => void;
 };
 
 declare global {
   interface Window {
-    __faqSearchInitialized?: boolean;
+    FaqSearch?: FaqSearchApi;
   }
 }
 
 const OPENED_ATTR = 'data-opened-by-search';
+// Report the query visitors settle on to analytics rather than every keystroke
+const SEARCH_TRACKING_DELAY_MS = 1000;
 const HIGHLIGHT_CLASS = 'faq-search-highlight';
 const HIGHLIGHT_TAG = 'mark';
+const MAX_SUGGESTIONS = 5;
 
-// Track wrappers we've already tagged with a click listener
-const clickTaggedWrappers = new WeakSet<HTMLElement>();
-const searchOpenedItems = new Set<HTMLElement>();
+const scopes = new Map<ScopeRoot, FaqScope>();
 
 const ready = (fn: () => void): void => {
   if (document.readyState === 'loading') {
@@ -29,23 +95,8 @@ const ready = (fn: () => void): void => {
 
 const normalizeText = (text: string): string => text.toLowerCase().trim();
 
-const debounce = (
-  fn: (...args: unknown[]) => void,
-  delay: number
-): ((...args: unknown[]) => void) => {
-  let timeoutId: number | undefined;
-  return (...args: unknown[]) => {
-    if (timeoutId !== undefined) {
-      window.clearTimeout(timeoutId);
-    }
-    timeoutId = window.setTimeout(() => {
-      fn(...args);
-    }, delay);
-  };
-};
-
-const collectFaqItems = (scope: ParentNode): FaqItemElements[] => {
-  const items = Array.from(scope.querySelectorAll<HTMLElement>('.bvb-faq-item'));
+const collectFaqItems = (root: ScopeRoot): FaqItemElements[] => {
+  const items = queryScoped(root, '.bvb-faq-item');
   return items.map((item) => {
     const questionWrapper = item.querySelector<HTMLElement>('.bvb-faq-item_question');
     const questionTitle = item.querySelector<HTMLElement>('.bvb-faq-item_question h3');
@@ -54,13 +105,28 @@ const collectFaqItems = (scope: ParentNode): FaqItemElements[] => {
   });
 };
 
-const isMatch = (el: HTMLElement | null, q: string): boolean => {
-  if (!el) return false;
-  return normalizeText(el.textContent || '').includes(q);
+// Tokenized once per item instead of on every keystroke. `init` collects fresh item objects,
+// so items re-rendered by the CMS are tokenized again.
+const searchDocumentCache = new WeakMap<FaqItemElements, SearchDocument>();
+
+const getSearchDocument = (els: FaqItemElements): SearchDocument => {
+  let doc = searchDocumentCache.get(els);
+  if (!doc) {
+    doc = createSearchDocument(els.questionTitle?.textContent || '', els.answer?.textContent || '');
+    searchDocumentCache.set(els, doc);
+  }
+  return doc;
 };
 
-const itemMatchesQuery = (els: FaqItemElements, q: string): boolean => {
-  return isMatch(els.questionTitle, q) || isMatch(els.answer, q);
+const itemMatchesQuery = (els: FaqItemElements, terms: string[]): boolean => {
+  return scoreDocument(getSearchDocument(els), terms) > 0;
+};
+
+/**
+ * Returns the items matching every query term, most relevant first.
+ */
+const rankItems = (items: FaqItemElements[], terms: string[]): FaqItemElements[] => {
+  return searchDocuments(items.map(getSearchDocument), terms).map(({ index }) => items[index]);
 };
 
 const clearHighlights = (container: HTMLElement): void => {
@@ -75,30 +141,16 @@ const clearHighlights = (container: HTMLElement): void => {
   });
 };
 
-const isElementVisible = (el: HTMLElement): boolean => {
-  const style = window.getComputedStyle(el);
-  if (style.display === 'none' || style.visibility === 'hidden') return false;
-  const rect = el.getBoundingClientRect();
-  return rect.width > 0 && rect.height > 0;
-};
+const highlightMatchesInElement = (container: HTMLElement, terms: string[]): void => {
+  if (!terms.length) return;
 
-const isFaqItemOpen = (els: FaqItemElements): boolean => {
-  if (els.answer) return isElementVisible(els.answer);
-  const expanded =
-    els.item.getAttribute('aria-expanded') === 'true' ||
-    els.questionWrapper?.getAttribute('aria-expanded') === 'true';
-  return Boolean(expanded);
-};
-
-const highlightMatchesInElement = (container: HTMLElement, query: string): void => {
-  if (!query) return;
-  const q = normalizeText(query);
-
-  // We will walk text nodes and wrap occurrences in <mark>
+  // We will walk text nodes and wrap each word matching a query term in <mark>
   const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT, {
     acceptNode(node) {
-      const text = node.nodeValue || '';
-      return normalizeText(text).includes(q) ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP;
+      const hasMatch = splitWords(node.nodeValue || '').some(({ stem }) =>
+        wordMatchesTerms(stem, terms)
+      );
+      return hasMatch ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP;
     },
   });
 
@@ -111,7 +163,6 @@ const highlightMatchesInElement = (container: HTMLElement, query: string): void
 
   textNodes.forEach((textNode) => {
     const original = textNode.nodeValue || '';
-    const lower = normalizeText(original);
 
     // Build a fragment with highlighted parts
     const frag = document.createDocumentFragment();
@@ -125,16 +176,13 @@ const highlightMatchesInElement = (container: HTMLElement, query: string): void
       frag.appendChild(mark);
     };
 
-    while (true) {
-      const idx = lower.indexOf(q, pos);
-      if (idx === -1) {
-        pushText(original.slice(pos));
-        break;
-      }
-      if (idx > pos) pushText(original.slice(pos, idx));
-      pushMark(original.slice(idx, idx + q.length));
-      pos = idx + q.length;
-    }
+    splitWords(original).forEach(({ word, index, stem }) => {
+      if (!wordMatchesTerms(stem, terms)) return;
+      if (index > pos) pushText(original.slice(pos, index));
+      pushMark(word);
+      pos = index + word.length;
+    });
+    if (pos < original.length) pushText(original.slice(pos));
 
     const parent = textNode.parentNode;
     if (!parent) return;
@@ -142,25 +190,69 @@ const highlightMatchesInElement = (container: HTMLElement, query: string): void
   });
 };
 
-const openFaqItem = (els: FaqItemElements): void => {
-  if (!els.questionWrapper) return;
-  // Avoid toggling closed if we already opened this via search
-  if (els.item.getAttribute(OPENED_ATTR) === 'true') return;
-  // Simulate user click to trigger Webflow interaction
-  els.questionWrapper.click();
-  els.item.setAttribute(OPENED_ATTR, 'true');
-  searchOpenedItems.add(els.item);
+const getQuestionText = (els: FaqItemElements): string => {
+  return (els.questionTitle?.textContent || '').trim();
 };
 
-const ensureClickTagging = (items: FaqItemElements[]): void => {
-  items.forEach((els) => {
-    if (!els.questionWrapper) return;
-    if (clickTaggedWrappers.has(els.questionWrapper)) return;
-    clickTaggedWrappers.add(els.questionWrapper);
-    els.questionWrapper.addEventListener('click', () => {
-      els.item.setAttribute(OPENED_ATTR, 'true');
-    });
-  });
+const trackItemOpened = (els: FaqItemElements, source: OpenSource): void => {
+  const question = getQuestionText(els);
+  trackEvent('faq', 'faq_item_opened', { question, source });
+  recordItemOpened(question);
+};
+
+/**
+ * Reports a settled query to analytics, returning its result count.
+ */
+const trackSearch = (items: FaqItemElements[], query: string): number => {
+  const q = normalizeText(query);
+  if (!q) return 0;
+  const terms = parseQuery(q);
+  const resultCount = items.filter((els) => itemMatchesQuery(els, terms)).length;
+  trackEvent('faq', 'faq_search', { query: q, resultCount });
+  if (!resultCount) trackEvent('faq', 'faq_search_no_results', { query: q });
+  return resultCount;
+};
+
+const isActiveScope = (scope: FaqScope): boolean => scopes.get(scope.root) === scope;
+
+const openFaqItem = (
+  scope: FaqScope,
+  els: FaqItemElements,
+  source: Exclude<OpenSource, 'click'> = 'search'
+): void => {
+  // Items that are already open stay under the visitor's control
+  if (scope.accordion.isOpen(els)) return;
+  scope.accordion.open(els);
+  // Linked items stay open when the search is cleared
+  if (source === 'search') {
+    els.item.setAttribute(OPENED_ATTR, 'true');
+    scope.searchOpenedItems.add(els.item);
+    return;
+  }
+  // Only what the visitor opened counts, not what the search revealed for them
+  trackItemOpened(els, source);
+};
+
+const forgetSearchOpenedItem = (scope: FaqScope, els: FaqItemElements): void => {
+  els.item.removeAttribute(OPENED_ATTR);
+  scope.searchOpenedItems.delete(els.item);
+};
+
+const closeSearchOpenedItem = (scope: FaqScope, els: FaqItemElements): void => {
+  if (!scope.searchOpenedItems.has(els.item)) return;
+  scope.accordion.close(els);
+  forgetSearchOpenedItem(scope, els);
+};
+
+const onItemToggle = (
+  scope: FaqScope,
+  els: FaqItemElements,
+  open: boolean,
+  userInitiated: boolean
+): void => {
+  // A visitor closing a search-opened item takes it over from the search
+  if (!open) forgetSearchOpenedItem(scope, els);
+  if (open && userInitiated) trackItemOpened(els, 'click');
 };
 
 const scrollIntoViewIfNeeded = (el: HTMLElement): void => {
@@ -171,110 +263,299 @@ const scrollIntoViewIfNeeded = (el: HTMLElement): void => {
   }
 };
 
-const findFirstMatchAndAct = (items: FaqItemElements[], query: string): void => {
-  const q = normalizeText(query);
-  if (!q) return;
-
+/**
+ * Highlights every match, opens the most relevant one and returns the ranked matches.
+ */
+const findFirstMatchAndAct = (scope: FaqScope, query: string): FaqItemElements[] => {
+  const { items } = scope;
   // Clear previous highlights in this FAQ scope
   items.forEach(({ item }) => clearHighlights(item));
 
-  // Find matches
-  let firstMatchAnchor: HTMLElement | null = null;
-  let firstMatchedItem: FaqItemElements | null = null;
-
-  items.forEach((els) => {
-    const questionMatches = isMatch(els.questionTitle, q);
-    const answerMatches = isMatch(els.answer, q);
-
-    if (questionMatches || answerMatches) {
-      // highlight within both question and answer
-      if (els.questionTitle) highlightMatchesInElement(els.questionTitle, q);
-      if (els.answer) highlightMatchesInElement(els.answer, q);
-
-      if (!firstMatchedItem) {
-        firstMatchedItem = els;
-        // Prefer an inner highlight to scroll to
-        const anchor = els.item.querySelector(
-          `${HIGHLIGHT_TAG}.${HIGHLIGHT_CLASS}`
-        ) as HTMLElement | null;
-        firstMatchAnchor = anchor || els.item;
-      }
-    }
+  const terms = parseQuery(query);
+  if (!terms.length) return [];
+
+  const ranked = rankItems(items, terms);
+  ranked.forEach((els) => {
+    // highlight within both question and answer
+    if (els.questionTitle) highlightMatchesInElement(els.questionTitle, terms);
+    if (els.answer) highlightMatchesInElement(els.answer, terms);
   });
 
-  if (firstMatchedItem) {
-    // If the anchor is within the item, scroll to it first (even if collapsed)
-    if (firstMatchAnchor) scrollIntoViewIfNeeded(firstMatchAnchor);
-    // Then open the item to reveal content
-    openFaqItem(firstMatchedItem);
+  const [bestMatch] = ranked;
+  if (!bestMatch) return ranked;
+
+  // Prefer an inner highlight to scroll to, even if the item is still collapsed
+  const anchor = bestMatch.item.querySelector<HTMLElement>(`${HIGHLIGHT_TAG}.${HIGHLIGHT_CLASS}`);
+  scrollIntoViewIfNeeded(anchor || bestMatch.item);
+  // Then open the item to reveal content
+  openFaqItem(scope, bestMatch);
+  return ranked;
+};
+
+const getMatchMarks = (ranked: FaqItemElements[]): HTMLElement[] => {
+  return ranked.flatMap(({ item }) =>
+    Array.from(item.querySelectorAll<HTMLElement>(`${HIGHLIGHT_TAG}.${HIGHLIGHT_CLASS}`))
+  );
+};
+
+const findItemForElement = (items: FaqItemElements[], el: HTMLElement): FaqItemElements | null => {
+  return items.find(({ item }) => item.contains(el)) ?? null;
+};
+
+const getSuggestions = (items: FaqItemElements[], query: string): Suggestion[] => {
+  const terms = parseQuery(query);
+  if (!terms.length) {
+    return readRecentSearches().map((label) => ({ kind: 'recent', label }));
   }
+  return rankItems(items, terms)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((els) => ({ kind: 'question', label: getQuestionText(els), els }));
 };
 
-const attachSearchHandlerToInput = (input: HTMLInputElement, items: FaqItemElements[]): void => {
+const attachSearchHandlerToInput = (scope: FaqScope, input: HTMLInputElement): void => {
+  const { root, items } = scope;
+  // `faq-search="filter"` hides non-matching items instead of only jumping to the best match
+  const filterMode = input.getAttribute('faq-search') === 'filter';
+
+  let lastQuery = '';
+
+  const matchNavigator = createMatchNavigator(root, (mark, previous) => {
+    const els = findItemForElement(items, mark);
+    const previousEls = previous ? findItemForElement(items, previous) : null;
+    // Close what was opened only to reveal the previous match
+    if (previousEls && previousEls !== els) closeSearchOpenedItem(scope, previousEls);
+    scrollIntoViewIfNeeded(mark);
+    if (els) openFaqItem(scope, els);
+  });
+  scope.cleanups.push(attachNavigationButtons(root, matchNavigator));
+
   const onSearch = () => {
+    // A debounced search may still fire after its scope was destroyed
+    if (!isActiveScope(scope)) return;
     const value = input.value || '';
+    lastQuery = value;
+    writeQueryToUrl(value.trim());
     if (!value.trim()) {
       items.forEach(({ item }) => clearHighlights(item));
       // Close any items that were opened by search
-      items.forEach((els) => {
-        if (searchOpenedItems.has(els.item)) {
-          if (isFaqItemOpen(els) && els.questionWrapper) {
-            els.questionWrapper.click();
-          }
-          els.item.removeAttribute(OPENED_ATTR);
-          searchOpenedItems.delete(els.item);
-        }
-      });
+      items.forEach((els) => closeSearchOpenedItem(scope, els));
+      matchNavigator.setMatches([]);
+      if (filterMode) applyFilter(root, items, null);
       return;
     }
-    const q = normalizeText(value);
+    const terms = parseQuery(value);
     // For non-empty queries, close only those previously search-opened items
     // that no longer match the current query. Keep matching items open.
     items.forEach((els) => {
-      if (searchOpenedItems.has(els.item) && !itemMatchesQuery(els, q)) {
-        if (isFaqItemOpen(els) && els.questionWrapper) {
-          els.questionWrapper.click();
-        }
-        els.item.removeAttribute(OPENED_ATTR);
-        searchOpenedItems.delete(els.item);
-      }
+      if (!itemMatchesQuery(els, terms)) closeSearchOpenedItem(scope, els);
     });
-    findFirstMatchAndAct(items, value);
+    const matches = findFirstMatchAndAct(scope, value);
+    matchNavigator.setMatches(getMatchMarks(matches));
+    if (filterMode) applyFilter(root, items, matches);
   };
 
-  const onSearchDebounced = debounce(onSearch, 200);
+  const onSearchDebounced = debounce(() => {
+    if (input.value !== lastQuery) onSearch();
+  }, 200);
 
-  // Prevent form submission on Enter
-  input.addEventListener('keydown', (e) => {
+  // Enter / Shift+Enter step through matches instead of submitting the form
+  const onKeydown = (e: KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault();
       e.stopPropagation();
+      // A pending search runs first and lands on its own first match
+      if (input.value !== lastQuery) {
+        onSearch();
+        return;
+      }
+      if (e.shiftKey) matchNavigator.prev();
+      else matchNavigator.next();
     }
-  });
+  };
 
+  const trackSearchDebounced = debounce(() => {
+    if (!isActiveScope(scope)) return;
+    const query = input.value || '';
+    const normalized = normalizeText(query);
+    if (!normalized) {
+      recordSearchCleared();
+      return;
+    }
+    const resultCount = trackSearch(items, query);
+    // Questions the visitor opens from here on belong to this query, not to the partial words
+    // typed on the way to it
+    recordSearch(normalized, resultCount);
+    // Only settled queries that found something are worth suggesting again
+    if (resultCount) saveRecentSearch(query);
+  }, SEARCH_TRACKING_DELAY_MS);
+
+  // Registered first so an active suggestion can claim Enter before match navigation
+  if (input.getAttribute('faq-autocomplete') !== 'off') {
+    const onSelect = (suggestion: Suggestion) => {
+      if (suggestion.kind === 'recent') {
+        input.value = suggestion.label;
+        onSearch();
+        return;
+      }
+      saveRecentSearch(input.value);
+      scrollIntoViewIfNeeded(suggestion.els.item);
+      openFaqItem(scope, suggestion.els, 'suggestion');
+    };
+    scope.cleanups.push(
+      attachAutocomplete(input, {
+        getSuggestions: (query) => getSuggestions(items, query),
+        onSelect,
+      })
+    );
+  }
+
+  input.addEventListener('keydown', onKeydown);
   input.addEventListener('input', onSearchDebounced);
+  input.addEventListener('input', trackSearchDebounced);
+
+  scope.cleanups.push(() => {
+    input.removeEventListener('keydown', onKeydown);
+    input.removeEventListener('input', onSearchDebounced);
+    input.removeEventListener('input', trackSearchDebounced);
+    matchNavigator.setMatches([]);
+    if (filterMode) applyFilter(root, items, null);
+  });
+};
+
+/**
+ * An input searches the `[faq-container]` named by `faq-search-target` (a selector), else the
+ * container it sits in, else the page-level scope.
+ */
+const resolveScopeRoot = (input: HTMLElement): ScopeRoot => {
+  const target = input.getAttribute('faq-search-target');
+  const targetContainer = target
+    ? document.querySelector(target)?.closest<HTMLElement>(CONTAINER_SELECTOR)
+    : null;
+  return targetContainer || input.closest<HTMLElement>(CONTAINER_SELECTOR) || document;
 };
 
-const init = (): void => {
-  if (window.__faqSearchInitialized) return;
-  window.__faqSearchInitialized = true;
+const getScopeRoots = (root: ScopeRoot): ScopeRoot[] => {
+  const containers = Array.from(root.querySelectorAll<HTMLElement>(CONTAINER_SELECTOR));
+  if (root instanceof HTMLElement) {
+    return root.matches(CONTAINER_SELECTOR) ? [root, ...containers] : containers;
+  }
+  return [root, ...containers];
+};
 
+const injectStyles = (): void => {
   // Minimal style for highlight if none provided
-  if (!document.getElementById('faq-search-highlight-style')) {
-    const style = document.createElement('style');
-    style.id = 'faq-search-highlight-style';
-    style.textContent = `.${HIGHLIGHT_CLASS}{ background: var(--indigo-100); padding: 0 .1em; }`;
-    document.head.appendChild(style);
+  if (document.getElementById('faq-search-highlight-style')) return;
+  const style = document.createElement('style');
+  style.id = 'faq-search-highlight-style';
+  style.textContent = `
+    .${HIGHLIGHT_CLASS}{ background: var(--indigo-100); padding: 0 .1em; }
+    .${HIGHLIGHT_CLASS}.${ACTIVE_MATCH_CLASS}{ background: var(--indigo-300); outline: 2px solid var(--indigo-500); }
+    .${FILTER_HIDDEN_CLASS}{ display: none !important; }
+    ${ACCORDION_STYLES}
+    ${AUTOCOMPLETE_STYLES}
+  `;
+  document.head.appendChild(style);
+};
+
+const destroyScope = (root: ScopeRoot): void => {
+  const scope = scopes.get(root);
+  if (!scope) return;
+  scope.items.forEach((els) => {
+    clearHighlights(els.item);
+    closeSearchOpenedItem(scope, els);
+  });
+  scope.cleanups.forEach((cleanup) => cleanup());
+  scopes.delete(root);
+};
+
+const initScope = (root: ScopeRoot, inputs: HTMLInputElement[]): void => {
+  destroyScope(root);
+
+  const items = collectFaqItems(root);
+  const scope: FaqScope = {
+    root,
+    items,
+    searchOpenedItems: new Set(),
+    accordion: createAccordion(items, getAccordionMode(root), (els, open, userInitiated) =>
+      onItemToggle(scope, els, open, userInitiated)
+    ),
+    cleanups: [],
+  };
+  scopes.set(root, scope);
+  scope.cleanups.push(scope.accordion.destroy);
+  assignItemAnchors(scope.items);
+  scope.cleanups.push(initializeCopyLinks(scope.items));
+
+  if (inputs.some((input) => input.getAttribute('faq-search') === 'filter')) {
+    initializeFilterElements(root);
   }
+  inputs.forEach((input) => attachSearchHandlerToInput(scope, input));
+};
+
+const getAllItems = (): FaqItemElements[] => {
+  return Array.from(scopes.values()).flatMap(({ items }) => items);
+};
 
-  // Global search across the entire page
-  const items = collectFaqItems(document);
-  ensureClickTagging(items);
+const init = (root: ScopeRoot = document): void => {
+  initializeAnalytics();
+  injectStyles();
 
   const inputs = Array.from(document.querySelectorAll<HTMLInputElement>('[faq-search]'));
-  inputs.forEach((input) => attachSearchHandlerToInput(input, items));
+  getScopeRoots(root).forEach((scopeRoot) => {
+    initScope(
+      scopeRoot,
+      inputs.filter((input) => resolveScopeRoot(input) === scopeRoot)
+    );
+  });
+  syncStructuredData(getAllItems());
+};
+
+const destroy = (root: ScopeRoot = document): void => {
+  getScopeRoots(root).forEach(destroyScope);
+  syncStructuredData(getAllItems());
+};
+
+/**
+ * Opens and scrolls to the item named by a `#faq-<slug>` hash.
+ */
+const openLinkedItem = (): boolean => {
+  for (const scope of scopes.values()) {
+    const linked = findLinkedItem(scope.items);
+    if (!linked) continue;
+    scrollIntoViewIfNeeded(linked.item);
+    openFaqItem(scope, linked, 'link');
+    return true;
+  }
+  return false;
 };
 
-ready(init);
+/**
+ * Runs the search from `?faq=query` unless the URL links to a specific item.
+ */
+const openFromUrl = (): void => {
+  if (openLinkedItem()) return;
+
+  const query = readQueryFromUrl();
+  const input = document.querySelector<HTMLInputElement>('[faq-search]');
+  if (!query || !input) return;
+  input.value = query;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
 
-export {};
+// Loading the script twice shouldn't bind every listener twice
+if (!window.FaqSearch) {
+  window.FaqSearch = {
+    init,
+    destroy,
+    configureTelemetry,
+    flushTelemetry,
+    showTelemetryOverlay,
+    hideTelemetryOverlay,
+  };
+  ready(() => {
+    init();
+    openFromUrl();
+    window.addEventListener('hashchange', openLinkedItem);
+    if (isTelemetryDebugEnabled()) showTelemetryOverlay();
+  });
+}
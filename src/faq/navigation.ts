@@ -0,0 +1,86 @@
+import { queryScoped } from './dom';
+import type { ScopeRoot } from './types';
+
+export const ACTIVE_MATCH_CLASS = 'faq-search-active';
+
+const NEXT_SELECTOR = '[faq-search-next]';
+const PREV_SELECTOR = '[faq-search-prev]';
+const POSITION_SELECTOR = '[faq-search-position]';
+
+export type MatchNavigator = {
+  /** Replaces the matches, making the first one active without moving to it. */
+  setMatches: (marks: HTMLElement[]) => void;
+  next: () => void;
+  prev: () => void;
+};
+
+/**
+ * Steps through highlighted matches. `onActivate` receives the new active match and the previous
+ * one, so the caller can open the containing item and close the one it leaves.
+ */
+export const createMatchNavigator = (
+  root: ScopeRoot,
+  onActivate: (mark: HTMLElement, previous: HTMLElement | null) => void
+): MatchNavigator => {
+  let marks: HTMLElement[] = [];
+  let activeIndex = -1;
+
+  const render = (): void => {
+    marks.forEach((mark, i) => mark.classList.toggle(ACTIVE_MATCH_CLASS, i === activeIndex));
+
+    queryScoped(root, POSITION_SELECTOR).forEach((el) => {
+      el.textContent = marks.length ? `${activeIndex + 1} of ${marks.length}` : '';
+      if (!el.hasAttribute('aria-live')) el.setAttribute('aria-live', 'polite');
+    });
+
+    queryScoped(root, `${NEXT_SELECTOR}, ${PREV_SELECTOR}`).forEach((button) => {
+      const disabled = marks.length < 2;
+      if (button instanceof HTMLButtonElement) button.disabled = disabled;
+      button.setAttribute('aria-disabled', String(disabled));
+    });
+  };
+
+  const move = (step: number): void => {
+    if (!marks.length) return;
+    const previous = marks[activeIndex] ?? null;
+    activeIndex = (activeIndex + step + marks.length) % marks.length;
+    render();
+    onActivate(marks[activeIndex], previous);
+  };
+
+  const setMatches = (next: HTMLElement[]): void => {
+    marks = next;
+    activeIndex = marks.length ? 0 : -1;
+    render();
+  };
+
+  return { setMatches, next: () => move(1), prev: () => move(-1) };
+};
+
+/**
+ * Wires the scope's `[faq-search-next]` and `[faq-search-prev]` buttons to a navigator.
+ * Returns a function removing the listeners.
+ */
+export const attachNavigationButtons = (
+  root: ScopeRoot,
+  navigator: MatchNavigator
+): (() => void) => {
+  const onNext = (e: Event) => {
+    e.preventDefault();
+    navigator.next();
+  };
+  const onPrev = (e: Event) => {
+    e.preventDefault();
+    navigator.prev();
+  };
+
+  const nextButtons = queryScoped(root, NEXT_SELECTOR);
+  const prevButtons = queryScoped(root, PREV_SELECTOR);
+  nextButtons.forEach((button) => button.addEventListener('click', onNext));
+  prevButtons.forEach((button) => button.addEventListener('click', onPrev));
+
+  return () => {
+    nextButtons.forEach((button) => button.removeEventListener('click', onNext));
+    prevButtons.forEach((button) => button.removeEventListener('click', onPrev));
+  };
+};
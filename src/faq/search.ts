@@ -0,0 +1,174 @@
+/**
+ * A searchable FAQ entry. Tokens are folded and stemmed once so ranking a query stays cheap.
+ */
+export type SearchDocument = {
+  titleTokens: string[];
+  bodyTokens: string[];
+};
+
+export type SearchHit = {
+  index: number;
+  score: number;
+};
+
+// Question titles are short and specific, so a term found there says more than one in the answer
+const TITLE_WEIGHT = 3;
+const BODY_WEIGHT = 1;
+
+const EXACT_SCORE = 1;
+// Partial words match while visitors are still typing
+const PREFIX_SCORE = 0.75;
+const FUZZY_SCORE = 0.5;
+
+const MIN_PREFIX_LENGTH = 2;
+
+// Ordered longest first so "ies" is tried before "es" and "s"
+const SUFFIX_RULES: Array<[suffix: string, replacement: string, minStemLength: number]> = [
+  ['ational', 'ate', 3],
+  ['ization', 'ize', 3],
+  ['ations', 'ate', 3],
+  ['ation', 'ate', 3],
+  ['ness', '', 3],
+  ['ment', '', 4],
+  ['ing', '', 3],
+  ['ies', 'y', 2],
+  ['ied', 'y', 2],
+  ['sses', 'ss', 2],
+  ['ed', '', 3],
+  ['ly', '', 3],
+  ['es', '', 3],
+  ['s', '', 3],
+];
+
+/**
+ * Lowercases and strips accents and other diacritics, e.g. "Vérification" → "verification".
+ */
+export const foldText = (text: string): string => {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+};
+
+/**
+ * Reduces a folded word to a rough stem so "passwords", "password" and "passworded" meet.
+ */
+export const stemWord = (word: string): string => {
+  // Guard words like "class" or "status" against losing their final "s"
+  if (/(ss|us|is)$/.test(word)) return word;
+
+  for (const [suffix, replacement, minStemLength] of SUFFIX_RULES) {
+    if (!word.endsWith(suffix)) continue;
+    const stem = word.slice(0, -suffix.length);
+    if (stem.length < minStemLength) continue;
+    return stem + replacement;
+  }
+  return word;
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Splits text into words, keeping the original spelling alongside the folded stem.
+ */
+export const splitWords = (text: string): Array<{ word: string; index: number; stem: string }> => {
+  return Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    word: match[0],
+    index: match.index ?? 0,
+    stem: stemWord(foldText(match[0])),
+  }));
+};
+
+export const tokenize = (text: string): string[] => splitWords(text).map(({ stem }) => stem);
+
+/**
+ * Parses a query into unique terms. Every term has to match for a document to be a hit.
+ */
+export const parseQuery = (query: string): string[] => Array.from(new Set(tokenize(query)));
+
+export const createSearchDocument = (title: string, body: string): SearchDocument => {
+  return { titleTokens: tokenize(title), bodyTokens: tokenize(body) };
+};
+
+// Short words tolerate no typos, longer ones a single one: two would let "password" find "passport"
+const getMaxEdits = (term: string): number => (term.length <= 3 ? 0 : 1);
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * bailing out once the distance can no longer stay within `max`.
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+};
+
+/**
+ * Scores how well a single word matches a query term, 0 meaning no match.
+ */
+export const matchTerm = (term: string, token: string): number => {
+  if (token === term) return EXACT_SCORE;
+  if (term.length >= MIN_PREFIX_LENGTH && token.startsWith(term)) return PREFIX_SCORE;
+
+  const maxEdits = getMaxEdits(term);
+  if (maxEdits && editDistance(term, token, maxEdits) <= maxEdits) return FUZZY_SCORE;
+  return 0;
+};
+
+const bestMatch = (term: string, tokens: string[]): number => {
+  let best = 0;
+  for (const token of tokens) {
+    best = Math.max(best, matchTerm(term, token));
+    if (best === EXACT_SCORE) break;
+  }
+  return best;
+};
+
+/**
+ * Ranks a document against the parsed query terms. Returns 0 unless every term matches.
+ */
+export const scoreDocument = (doc: SearchDocument, terms: string[]): number => {
+  if (!terms.length) return 0;
+
+  let total = 0;
+  for (const term of terms) {
+    const score = Math.max(
+      bestMatch(term, doc.titleTokens) * TITLE_WEIGHT,
+      bestMatch(term, doc.bodyTokens) * BODY_WEIGHT
+    );
+    if (!score) return 0;
+    total += score;
+  }
+  return total;
+};
+
+/**
+ * Returns the matching documents, best first. Ties keep document order.
+ */
+export const searchDocuments = (docs: SearchDocument[], terms: string[]): SearchHit[] => {
+  return docs
+    .map((doc, index) => ({ index, score: scoreDocument(doc, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+};
+
+export const wordMatchesTerms = (stem: string, terms: string[]): boolean => {
+  return terms.some((term) => matchTerm(term, stem) > 0);
+};
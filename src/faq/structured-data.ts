@@ -0,0 +1,101 @@
+import type { FaqItemElements } from './types';
+
+const SCRIPT_ID = 'faq-structured-data';
+const EXCLUDE_ATTR = 'faq-schema-exclude';
+
+// The HTML Google renders in FAQ rich results, everything else is unwrapped to its text
+const ALLOWED_TAGS = new Set('A B BR DIV EM H1 H2 H3 H4 H5 H6 I LI OL P STRONG UL'.split(' '));
+const DROPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'IFRAME', 'NOSCRIPT', 'SVG']);
+
+type FaqPageSchema = {
+  '@context': 'https://schema.org';
+  '@type': 'FAQPage';
+  mainEntity: Array<{
+    '@type': 'Question';
+    name: string;
+    acceptedAnswer: { '@type': 'Answer'; text: string };
+  }>;
+};
+
+const isSafeHref = (href: string): boolean => /^(https?:|mailto:|\/|#)/i.test(href.trim());
+
+const sanitizeNode = (node: Node): void => {
+  Array.from(node.childNodes).forEach((child) => {
+    if (child.nodeType === Node.COMMENT_NODE) {
+      child.remove();
+      return;
+    }
+    if (!(child instanceof Element)) return;
+
+    if (DROPPED_TAGS.has(child.tagName.toUpperCase())) {
+      child.remove();
+      return;
+    }
+
+    sanitizeNode(child);
+
+    if (!ALLOWED_TAGS.has(child.tagName.toUpperCase())) {
+      child.replaceWith(...Array.from(child.childNodes));
+      return;
+    }
+
+    const href = child.tagName.toUpperCase() === 'A' ? child.getAttribute('href') : null;
+    Array.from(child.attributes).forEach(({ name }) => child.removeAttribute(name));
+    if (href && isSafeHref(href)) child.setAttribute('href', href);
+  });
+};
+
+/**
+ * Reduces answer markup to the tags allowed in FAQ rich results, without any attributes
+ * besides safe link targets. Works on a copy so search highlights and Webflow markup stay intact.
+ */
+export const sanitizeAnswerHtml = (answer: HTMLElement): string => {
+  const copy = answer.cloneNode(true) as HTMLElement;
+  sanitizeNode(copy);
+  return copy.innerHTML.replace(/\s+/g, ' ').trim();
+};
+
+export const buildFaqPageSchema = (items: FaqItemElements[]): FaqPageSchema | null => {
+  const seen = new Set<string>();
+  const mainEntity: FaqPageSchema['mainEntity'] = [];
+
+  items.forEach(({ item, questionTitle, answer }) => {
+    if (item.hasAttribute(EXCLUDE_ATTR)) return;
+    const name = (questionTitle?.textContent || '').replace(/\s+/g, ' ').trim();
+    const text = answer ? sanitizeAnswerHtml(answer) : '';
+    if (!name || !text || seen.has(name)) return;
+    seen.add(name);
+    mainEntity.push({ '@type': 'Question', name, acceptedAnswer: { '@type': 'Answer', text } });
+  });
+
+  if (!mainEntity.length) return null;
+  return { '@context': 'https://schema.org', '@type': 'FAQPage', mainEntity };
+};
+
+// Respect FAQPage markup already added in Webflow, a page should only carry one
+const hasForeignFaqSchema = (): boolean => {
+  return Array.from(
+    document.querySelectorAll<HTMLScriptElement>('script[type="application/ld+json"]')
+  ).some((script) => script.id !== SCRIPT_ID && script.textContent?.includes('"FAQPage"'));
+};
+
+/**
+ * Writes a schema.org FAQPage JSON-LD block for the given items into the head, replacing the
+ * previous one. Items marked with `faq-schema-exclude` are left out.
+ */
+export const syncStructuredData = (items: FaqItemElements[]): void => {
+  const existing = document.getElementById(SCRIPT_ID);
+  const schema = hasForeignFaqSchema() ? null : buildFaqPageSchema(items);
+
+  if (!schema) {
+    existing?.remove();
+    return;
+  }
+
+  const script = existing ?? document.createElement('script');
+  script.id = SCRIPT_ID;
+  script.setAttribute('type', 'application/ld+json');
+  // Escape "<" so answer text can never close the script element
+  script.textContent = JSON.stringify(schema).replace(/</g, '\\u003c');
+  if (!existing) document.head.appendChild(script);
+};
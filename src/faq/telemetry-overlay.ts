@@ -0,0 +1,89 @@
+import { clearTelemetryStats, readTelemetryStats } from './telemetry';
+
+const OVERLAY_ID = 'faq-telemetry-overlay';
+const DEBUG_PARAM = 'faq-debug';
+const MAX_ROWS = 10;
+
+const createList = (title: string, counts: Record<string, number>): HTMLElement => {
+  const section = document.createElement('section');
+  const heading = document.createElement('h4');
+  heading.textContent = title;
+  heading.style.cssText = 'margin:12px 0 4px;font-size:13px;';
+  section.appendChild(heading);
+
+  const entries = Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_ROWS);
+
+  if (!entries.length) {
+    const empty = document.createElement('p');
+    empty.textContent = 'Nothing recorded yet.';
+    empty.style.cssText = 'margin:0;opacity:.6;';
+    section.appendChild(empty);
+    return section;
+  }
+
+  const list = document.createElement('ol');
+  list.style.cssText = 'margin:0;padding-left:20px;';
+  entries.forEach(([label, count]) => {
+    const row = document.createElement('li');
+    row.textContent = `${label} (${count})`;
+    list.appendChild(row);
+  });
+  section.appendChild(list);
+  return section;
+};
+
+const createButton = (label: string, onClick: () => void): HTMLButtonElement => {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = label;
+  button.style.cssText = 'margin-right:8px;padding:2px 8px;font:inherit;cursor:pointer;';
+  button.addEventListener('click', onClick);
+  return button;
+};
+
+export const hideTelemetryOverlay = (): void => {
+  document.getElementById(OVERLAY_ID)?.remove();
+};
+
+/**
+ * Shows the searches that found nothing and the questions most opened from search, as recorded
+ * in this browser. Meant for content editors, open it with `?faq-debug` in the URL.
+ */
+export const showTelemetryOverlay = (): void => {
+  hideTelemetryOverlay();
+  const stats = readTelemetryStats();
+
+  const overlay = document.createElement('aside');
+  overlay.id = OVERLAY_ID;
+  overlay.setAttribute('aria-label', 'FAQ search report');
+  overlay.style.cssText =
+    'position:fixed;right:16px;bottom:16px;z-index:2147483647;width:320px;max-height:70vh;overflow:auto;padding:12px 16px;background:#fff;color:#111;border:1px solid #ddd;border-radius:8px;box-shadow:0 8px 24px rgba(0,0,0,.15);font:13px/1.4 system-ui,sans-serif;';
+
+  const title = document.createElement('strong');
+  title.textContent = 'FAQ search report';
+  overlay.append(
+    title,
+    createList('Top searches without results', stats.zeroResultQueries),
+    createList('Most opened questions from search', stats.openedQuestions)
+  );
+
+  const actions = document.createElement('div');
+  actions.style.marginTop = '12px';
+  actions.append(
+    createButton('Refresh', showTelemetryOverlay),
+    createButton('Clear', () => {
+      clearTelemetryStats();
+      showTelemetryOverlay();
+    }),
+    createButton('Close', hideTelemetryOverlay)
+  );
+  overlay.appendChild(actions);
+
+  document.body.appendChild(overlay);
+};
+
+export const isTelemetryDebugEnabled = (): boolean => {
+  return new URLSearchParams(window.location.search).has(DEBUG_PARAM);
+};
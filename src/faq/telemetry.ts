@@ -0,0 +1,190 @@
+import { CONSENT_EVENT, hasAnalyticsConsent } from '$utils/analytics';
+
+/**
+ * One settled search: what was typed, whether it found anything, which question was opened
+ * afterwards and how long it stayed the visitor's focus.
+ */
+export type SearchRecord = {
+  query: string;
+  resultCount: number;
+  matched: boolean;
+  openedQuestion: string | null;
+  dwellMs: number | null;
+  timestamp: number;
+};
+
+export type TelemetryOptions = {
+  /** Receives `{ records }` as JSON via `navigator.sendBeacon`. */
+  endpoint?: string;
+  /** Called with every batch, instead of or alongside the endpoint. */
+  onBatch?: (records: SearchRecord[]) => void;
+};
+
+/** Aggregated counts kept in this browser for the debug overlay. */
+export type TelemetryStats = {
+  zeroResultQueries: Record<string, number>;
+  openedQuestions: Record<string, number>;
+};
+
+const BATCH_SIZE = 10;
+// Records waiting for consent or a flush, oldest dropped first
+const MAX_QUEUED_RECORDS = 50;
+const STATS_KEY = 'faq-search-stats';
+const MAX_STATS_ENTRIES = 100;
+
+let options: TelemetryOptions = {};
+let current: SearchRecord | null = null;
+let openedAt: number | null = null;
+const queue: SearchRecord[] = [];
+let listening = false;
+
+export const readTelemetryStats = (): TelemetryStats => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STATS_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        zeroResultQueries: stored.zeroResultQueries ?? {},
+        openedQuestions: stored.openedQuestions ?? {},
+      };
+    }
+  } catch {
+    // Fall through to empty stats
+  }
+  return { zeroResultQueries: {}, openedQuestions: {} };
+};
+
+export const clearTelemetryStats = (): void => {
+  try {
+    window.localStorage.removeItem(STATS_KEY);
+  } catch {
+    // Nothing stored to clear
+  }
+};
+
+// Keep only the most frequent keys so the stored stats can't grow without bound
+const trimCounts = (counts: Record<string, number>): Record<string, number> => {
+  return Object.fromEntries(
+    Object.entries(counts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_STATS_ENTRIES)
+  );
+};
+
+// The stats are visitor data too, so they're only kept with analytics consent
+const updateStats = (record: SearchRecord): void => {
+  if (!hasAnalyticsConsent()) return;
+  const stats = readTelemetryStats();
+  if (!record.matched) {
+    stats.zeroResultQueries[record.query] = (stats.zeroResultQueries[record.query] ?? 0) + 1;
+  }
+  if (record.openedQuestion) {
+    const { openedQuestion } = record;
+    stats.openedQuestions[openedQuestion] = (stats.openedQuestions[openedQuestion] ?? 0) + 1;
+  }
+  try {
+    window.localStorage.setItem(
+      STATS_KEY,
+      JSON.stringify({
+        zeroResultQueries: trimCounts(stats.zeroResultQueries),
+        openedQuestions: trimCounts(stats.openedQuestions),
+      })
+    );
+  } catch {
+    // Storage may be unavailable (e.g. private mode), the overlay then stays empty
+  }
+};
+
+const readEndpoint = (): string | undefined => {
+  return (
+    options.endpoint ??
+    document
+      .querySelector('[faq-telemetry-endpoint]')
+      ?.getAttribute('faq-telemetry-endpoint')
+      ?.trim()
+  );
+};
+
+/**
+ * Delivers queued records once analytics consent is granted.
+ */
+export const flushTelemetry = (): void => {
+  if (!queue.length || !hasAnalyticsConsent()) return;
+  const records = queue.splice(0, queue.length);
+
+  try {
+    options.onBatch?.(records);
+  } catch {
+    // A failing callback shouldn't prevent the beacon
+  }
+
+  const endpoint = readEndpoint();
+  if (!endpoint) return;
+  const body = JSON.stringify({ records });
+  if (navigator.sendBeacon?.(endpoint, body)) return;
+  fetch(endpoint, { method: 'POST', body, keepalive: true }).catch(() => {
+    // Telemetry must never break the page
+  });
+};
+
+const finalizeCurrent = (): void => {
+  if (!current) return;
+  if (openedAt !== null) current.dwellMs = Date.now() - openedAt;
+  updateStats(current);
+  queue.push(current);
+  if (queue.length > MAX_QUEUED_RECORDS) queue.shift();
+  current = null;
+  openedAt = null;
+  if (queue.length >= BATCH_SIZE) flushTelemetry();
+};
+
+const listen = (): void => {
+  if (listening) return;
+  listening = true;
+  // Pages can be closed at any time, so send what we have as soon as they're hidden
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState !== 'hidden') return;
+    finalizeCurrent();
+    flushTelemetry();
+  });
+  document.addEventListener(CONSENT_EVENT, () => flushTelemetry());
+};
+
+export const configureTelemetry = (next: TelemetryOptions): void => {
+  options = { ...options, ...next };
+};
+
+/**
+ * Starts a record for a settled query, completing the previous one.
+ */
+export const recordSearch = (query: string, resultCount: number): void => {
+  listen();
+  if (current?.query === query) return;
+  finalizeCurrent();
+  current = {
+    query,
+    resultCount,
+    matched: resultCount > 0,
+    openedQuestion: null,
+    dwellMs: null,
+    timestamp: Date.now(),
+  };
+};
+
+/**
+ * Completes the current record once the search is cleared.
+ */
+export const recordSearchCleared = (): void => {
+  finalizeCurrent();
+};
+
+/**
+ * Attributes a question the visitor opened to the current search. Dwell time runs until the next
+ * search, or until the page is hidden.
+ */
+export const recordItemOpened = (question: string): void => {
+  if (!current) return;
+  // Only the first question opened after a search counts, later ones start no new record
+  if (current.openedQuestion) return;
+  current.openedQuestion = question;
+  openedAt = Date.now();
+};
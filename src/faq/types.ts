@@ -0,0 +1,9 @@
+export type FaqItemElements = {
+  item: HTMLElement;
+  questionWrapper: HTMLElement | null;
+  questionTitle: HTMLElement | null;
+  answer: HTMLElement | null;
+};
+
+/** The page, or a `[faq-container]` element holding an independent FAQ block. */
+export type ScopeRoot = Document | HTMLElement;
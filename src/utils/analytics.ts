@@ -0,0 +1,159 @@
+export type AnalyticsWidget = 'buildvsbuy' | 'faq';
+
+export type AnalyticsEvent = {
+  name: string;
+  widget: AnalyticsWidget;
+  properties: Record<string, unknown>;
+  timestamp: number;
+};
+
+export type AnalyticsSink = (event: AnalyticsEvent) => void;
+
+type ConsentState = 'pending' | 'granted' | 'denied';
+
+type ConsentDetail = { analytics?: boolean };
+
+declare global {
+  interface Window {
+    dataLayer?: unknown[];
+    /**
+     * Consent the cookie banner already knows when the widgets load, e.g. stored for a returning
+     * visitor: `window.FusionAuthConsent = { analytics: true }`, or a function returning that.
+     */
+    FusionAuthConsent?: ConsentDetail | (() => ConsentDetail | undefined);
+  }
+}
+
+/** Event bus name, dispatched on `document` for every delivered event. */
+export const ANALYTICS_EVENT = 'fusionauth:analytics';
+
+/**
+ * Consent signal. Dispatch on `document` from the cookie banner:
+ * `new CustomEvent('fusionauth:consent', { detail: { analytics: true } })`.
+ * The event only reaches widgets that are already loaded, so consent known earlier is read on init:
+ * from `window.FusionAuthConsent`, else from Google Consent Mode's `analytics_storage` in
+ * `window.dataLayer`. Pages without a banner can opt in with an `analytics-consent="granted"`
+ * attribute instead.
+ */
+export const CONSENT_EVENT = 'fusionauth:consent';
+
+// Events tracked before consent is granted are held here, and dropped if consent is denied
+const MAX_QUEUED_EVENTS = 50;
+
+const sinks: AnalyticsSink[] = [];
+const queue: AnalyticsEvent[] = [];
+let consent: ConsentState = 'pending';
+let initialized = false;
+
+const dataLayerSink: AnalyticsSink = ({ name, widget, properties }) => {
+  window.dataLayer = window.dataLayer || [];
+  window.dataLayer.push({ event: name, widget, ...properties });
+};
+
+const busSink: AnalyticsSink = (event) => {
+  document.dispatchEvent(new CustomEvent(ANALYTICS_EVENT, { detail: event }));
+};
+
+const createBeaconSink = (endpoint: string): AnalyticsSink => {
+  return (event) => {
+    const body = JSON.stringify(event);
+    if (navigator.sendBeacon?.(endpoint, body)) return;
+    fetch(endpoint, { method: 'POST', body, keepalive: true }).catch(() => {
+      // Analytics must never break the page
+    });
+  };
+};
+
+const deliver = (event: AnalyticsEvent): void => {
+  sinks.forEach((sink) => {
+    try {
+      sink(event);
+    } catch {
+      // A failing sink shouldn't prevent the others from receiving the event
+    }
+  });
+};
+
+export const setAnalyticsConsent = (granted: boolean): void => {
+  consent = granted ? 'granted' : 'denied';
+  const pending = queue.splice(0, queue.length);
+  if (granted) pending.forEach(deliver);
+};
+
+export const hasAnalyticsConsent = (): boolean => consent === 'granted';
+
+// The last `gtag('consent', 'default' | 'update', { analytics_storage })` pushed so far
+const readDataLayerConsent = (): boolean | null => {
+  let granted: boolean | null = null;
+  (window.dataLayer ?? []).forEach((entry) => {
+    if (typeof entry !== 'object' || entry === null || !('length' in entry)) return;
+    const [command, , params] = Array.from(entry as ArrayLike<unknown>);
+    if (command !== 'consent' || typeof params !== 'object' || params === null) return;
+    const { analytics_storage: storage } = params as { analytics_storage?: unknown };
+    if (storage === 'granted' || storage === 'denied') granted = storage === 'granted';
+  });
+  return granted;
+};
+
+/**
+ * Consent given before this bundle loaded, `null` while unknown.
+ */
+const readExistingConsent = (): boolean | null => {
+  try {
+    const hook = window.FusionAuthConsent;
+    const detail = typeof hook === 'function' ? hook() : hook;
+    if (typeof detail?.analytics === 'boolean') return detail.analytics;
+    return readDataLayerConsent();
+  } catch {
+    // A failing hook leaves consent pending until the event arrives
+    return null;
+  }
+};
+
+export const registerAnalyticsSink = (sink: AnalyticsSink): void => {
+  sinks.push(sink);
+};
+
+/**
+ * Registers the default sinks and starts listening for consent. Safe to call from every entry point.
+ */
+export const initializeAnalytics = (): void => {
+  if (initialized) return;
+  initialized = true;
+
+  sinks.push(dataLayerSink, busSink);
+
+  const endpoint = document
+    .querySelector('[analytics-endpoint]')
+    ?.getAttribute('analytics-endpoint')
+    ?.trim();
+  if (endpoint) sinks.push(createBeaconSink(endpoint));
+
+  const existing = readExistingConsent();
+  if (existing !== null) setAnalyticsConsent(existing);
+  else if (document.querySelector('[analytics-consent="granted"]')) setAnalyticsConsent(true);
+
+  document.addEventListener(CONSENT_EVENT, (e) => {
+    const { detail } = e as CustomEvent<{ analytics?: boolean } | undefined>;
+    setAnalyticsConsent(Boolean(detail?.analytics));
+  });
+};
+
+/**
+ * Tracks an event for all registered sinks (`window.dataLayer`, the `fusionauth:analytics`
+ * event bus and the optional `[analytics-endpoint]` beacon). Nothing is delivered until consent is granted.
+ */
+export const trackEvent = (
+  widget: AnalyticsWidget,
+  name: string,
+  properties: Record<string, unknown> = {}
+): void => {
+  initializeAnalytics();
+  const event: AnalyticsEvent = { name, widget, properties, timestamp: Date.now() };
+
+  if (consent === 'granted') {
+    deliver(event);
+  } else if (consent === 'pending' && queue.length < MAX_QUEUED_EVENTS) {
+    queue.push(event);
+  }
+};
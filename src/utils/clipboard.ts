@@ -0,0 +1,39 @@
+export const copyText = async (text: string): Promise<void> => {
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.setAttribute('readonly', '');
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  document.execCommand('copy');
+  textarea.remove();
+};
+
+const COPIED_ATTR = 'data-copied';
+const COPIED_DURATION_MS = 2000;
+
+const resetTimers = new WeakMap<HTMLElement, number>();
+
+/**
+ * Copies the text and sets `data-copied="true"` on the button for a short moment.
+ * A failed copy leaves the button as it was.
+ */
+export const copyWithFeedback = async (button: HTMLElement, text: string): Promise<void> => {
+  try {
+    await copyText(text);
+  } catch {
+    return;
+  }
+  button.setAttribute(COPIED_ATTR, 'true');
+  window.clearTimeout(resetTimers.get(button));
+  resetTimers.set(
+    button,
+    window.setTimeout(() => button.removeAttribute(COPIED_ATTR), COPIED_DURATION_MS)
+  );
+};
@@ -0,0 +1,14 @@
+export const debounce = <Args extends unknown[]>(
+  fn: (...args: Args) => void,
+  delay: number
+): ((...args: Args) => void) => {
+  let timeoutId: number | undefined;
+  return (...args: Args) => {
+    if (timeoutId !== undefined) {
+      window.clearTimeout(timeoutId);
+    }
+    timeoutId = window.setTimeout(() => {
+      fn(...args);
+    }, delay);
+  };
+};
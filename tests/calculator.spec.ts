@@ -0,0 +1,291 @@
+import { expect, type Page, test } from '@playwright/test';
+
+/**
+ * E2E tests for the build vs buy calculator against `tests/fixtures/calculator.html`.
+ * Expected totals follow the default pricing model, see `tests/unit/engine.spec.ts`.
+ */
+// Result cards of the page itself, scenario columns render the same attributes
+const result = (page: Page, selector: string) => {
+  return page.locator('.bvb-calculator_card').locator(selector);
+};
+
+const row = (page: Page, selector: string) => {
+  return page.locator('.bvb-calculator_card .bvb-calculator_card_row').filter({
+    has: page.locator(selector),
+  });
+};
+
+test.beforeEach(async ({ page }) => {
+  await page.goto('/fixtures/calculator.html');
+  await expect(result(page, '[inhouse-value="total"]')).not.toBeEmpty();
+});
+
+test.describe('calculator', () => {
+  test('renders the default scenario', async ({ page }) => {
+    await expect(result(page, '[inhouse-value="total"]')).toHaveText('$621,173');
+    await expect(result(page, '[saas-value="total"]')).toHaveText('$220,500');
+    await expect(result(page, '[fus-value="total"]')).toHaveText('$44,078');
+    await expect(result(page, '[general-value="total-savings"]')).toHaveText('$577,095');
+    await expect(page.locator('#engineers-value')).toHaveText('3');
+  });
+
+  test('shows the FusionAuth plan picked for the MAU', async ({ page }) => {
+    const plan = result(page, '[fus-value="plan"]');
+    await expect(plan).toHaveText('Starter');
+    await expect(plan).toHaveAttribute('data-plan', 'starter');
+
+    await page.locator('input[name="volume"]').fill('0');
+    await expect(plan).toHaveText('Community');
+    await expect(result(page, '[fus-value="licensing"]')).toHaveText('$0');
+  });
+
+  test('updates totals when a slider moves', async ({ page }) => {
+    await page.locator('input[name="engineers"]').fill('5');
+
+    await expect(page.locator('#engineers-value')).toHaveText('5');
+    await expect(result(page, '[inhouse-value="initial-development"]')).toHaveText('$562,500');
+    await expect(result(page, '[inhouse-value="total"]')).toHaveText('$846,173');
+    await expect(result(page, '[fus-value="total"]')).toHaveText('$62,078');
+  });
+
+  test('reflects the timeline in the totals', async ({ page }) => {
+    await page.locator('input[name="timeline"]').fill('1');
+
+    await expect(result(page, '[general-value="timeline"]')).toHaveText('1');
+    await expect(result(page, '[fus-value="licensing"]')).toHaveText('$2,880');
+  });
+
+  test('swaps build rows when auth already exists', async ({ page }) => {
+    await expect(row(page, '[inhouse-value="one-time-transition"]')).toBeHidden();
+    await expect(row(page, '[saas-value="migration-cost"]')).toBeHidden();
+
+    await page.locator('input[name="auth"]').check();
+
+    await expect(row(page, '[inhouse-value="one-time-transition"]')).toBeVisible();
+    await expect(row(page, '[inhouse-value="initial-development"]')).toBeHidden();
+    await expect(row(page, '[inhouse-value="security-and-compliance"]')).toBeHidden();
+    await expect(row(page, '[inhouse-value="opportunity-cost"]')).toBeHidden();
+    await expect(row(page, '[saas-value="migration-cost"]')).toBeVisible();
+    await expect(result(page, '[inhouse-value="total"]')).toHaveText('$305,000');
+
+    await page.locator('input[name="auth"]').uncheck();
+
+    await expect(row(page, '[inhouse-value="one-time-transition"]')).toBeHidden();
+    await expect(row(page, '[inhouse-value="initial-development"]')).toBeVisible();
+  });
+
+  test('renders declarative bindings', async ({ page }) => {
+    await expect(page.locator('#security-binding')).toHaveText('$240,000');
+    await expect(page.locator('#timeline-binding')).toHaveText('3 years');
+    await expect(page.locator('#migration-note')).toBeHidden();
+
+    await page.locator('input[name="timeline"]').fill('1');
+    await page.locator('input[name="auth"]').check();
+
+    await expect(page.locator('#timeline-binding')).toHaveText('1 year');
+    await expect(page.locator('#security-binding')).toHaveText('$0');
+    await expect(page.locator('#migration-note')).toBeVisible();
+  });
+});
+
+test.describe('motion', () => {
+  test('counts totals towards their new value', async ({ page }) => {
+    await page.clock.install({ time: new Date('2025-01-01T08:00:00') });
+    await page.reload();
+    await page.clock.pauseAt(new Date('2025-01-01T09:00:00'));
+    const total = result(page, '[inhouse-value="total"]');
+    await expect(total).toHaveText('$621,173');
+
+    await page.locator('input[name="engineers"]').fill('5');
+    await page.clock.runFor(100);
+    await expect(total).not.toHaveText(/^\$(621,173|846,173)$/);
+
+    await page.clock.runFor(400);
+    await expect(total).toHaveText('$846,173');
+  });
+
+  test('jumps straight to new values with reduced motion', async ({ page }) => {
+    await page.emulateMedia({ reducedMotion: 'reduce' });
+    await page.clock.install({ time: new Date('2025-01-01T08:00:00') });
+    await page.reload();
+    await page.clock.pauseAt(new Date('2025-01-01T09:00:00'));
+
+    await page.locator('input[name="engineers"]').fill('5');
+    await expect(result(page, '[inhouse-value="total"]')).toHaveText('$846,173');
+  });
+
+  test('indicates the latest change', async ({ page }) => {
+    const change = page.locator('#build-change');
+    await expect(change).toBeHidden();
+
+    await page.locator('input[name="engineers"]').fill('5');
+    await expect(change).toHaveText('+$225,000');
+    await expect(change).toHaveAttribute('data-delta', 'increase');
+
+    await page.locator('input[name="engineers"]').fill('4');
+    await expect(change).toHaveText('-$112,500');
+    await expect(change).toHaveAttribute('data-delta', 'decrease');
+  });
+
+  test('shows no change for a currency switch', async ({ page }) => {
+    const change = page.locator('#build-change');
+    await page.locator('input[name="engineers"]').fill('5');
+    await expect(change).toBeVisible();
+
+    await page.locator('select[bvb-currency-select]').selectOption('EUR');
+    await expect(result(page, '[inhouse-value="total"]')).toContainText('€');
+    await expect(change).toBeHidden();
+  });
+
+  test('sizes the total bars relative to the largest', async ({ page }) => {
+    await expect(page.locator('#build-bar')).toHaveAttribute('style', /width: 100%/);
+    await expect(page.locator('#saas-bar')).toHaveAttribute('style', /width: 35\.5%/);
+    await expect(page.locator('#fusionauth-bar')).toHaveAttribute('data-lowest', '');
+
+    await page.locator('input[name="auth"]').check();
+    await expect(page.locator('#saas-bar')).toHaveAttribute('style', /width: 100%/);
+  });
+});
+
+test.describe('assessment', () => {
+  const answerAll = async (page: Page, answer: 'yes' | 'no', count = 5) => {
+    const steps = page.locator('.bvb-step[step]');
+    for (let i = 0; i < count; i += 1) {
+      await steps.nth(i).locator(`[step-${answer}]`).click();
+    }
+  };
+
+  test('stays hidden until every question is answered', async ({ page }) => {
+    const info = page.locator('[assessment-info]');
+    await expect(info).toBeHidden();
+
+    await answerAll(page, 'yes', 4);
+    await expect(info).toBeHidden();
+
+    await page.locator('.bvb-step[step]').nth(4).locator('[step-yes]').click();
+    await expect(info).toBeVisible();
+    await expect(info).toHaveAttribute('data-recommendation', 'fusionauth');
+    await expect(info.locator('[assessment-text]')).toContainText('FusionAuth saves an estimated');
+    await expect(info).toBeFocused();
+  });
+
+  test('recommends building when every answer is no', async ({ page }) => {
+    await answerAll(page, 'no');
+
+    await expect(page.locator('[assessment-info]')).toHaveAttribute('data-recommendation', 'build');
+    await expect(page.locator('[assessment-text]')).toContainText('Consider Building');
+  });
+
+  test('marks the picked answer', async ({ page }) => {
+    const step = page.locator('.bvb-step[step]').first();
+    await step.locator('[step-no]').click();
+
+    await expect(step).toHaveAttribute('role', 'radiogroup');
+    await expect(step.locator('[step-no]')).toHaveAttribute('aria-checked', 'true');
+    await expect(step.locator('[step-yes]')).toHaveAttribute('aria-checked', 'false');
+  });
+
+  test('restores answers from a shared link and leaves other params alone', async ({ page }) => {
+    await page.goto('/fixtures/calculator.html?qcompliance=y&quantity=3');
+    const steps = page.locator('.bvb-step[step]');
+
+    await expect(steps.nth(1).locator('[step-yes]')).toHaveAttribute('aria-checked', 'true');
+    await expect(steps.locator('[aria-checked="true"]')).toHaveCount(1);
+    expect(new URL(page.url()).searchParams.get('quantity')).toBe('3');
+  });
+});
+
+test.describe('scenarios', () => {
+  const saveScenario = async (page: Page, name: string) => {
+    await page.locator('[bvb-scenario-name]').fill(name);
+    await page.locator('[bvb-scenario-save]').click();
+  };
+
+  test('compares saved scenarios side by side', async ({ page }) => {
+    await expect(page.locator('[bvb-scenario-empty]')).toBeVisible();
+
+    await saveScenario(page, 'Small team');
+    await page.locator('input[name="engineers"]').fill('5');
+    await saveScenario(page, 'Larger team');
+
+    await expect(page.locator('[bvb-scenario-empty]')).toBeHidden();
+    const columns = page.locator('[bvb-scenario][data-scenario-clone]');
+    await expect(columns).toHaveCount(2);
+    await expect(columns.nth(0).locator('[scenario-field="name"]')).toHaveText('Small team');
+    await expect(columns.nth(0).locator('[inhouse-value="total"]')).toHaveText('$621,173');
+    await expect(columns.nth(0).locator('[inhouse-delta="total"]')).toBeHidden();
+    await expect(columns.nth(1).locator('[inhouse-value="total"]')).toHaveText('$846,173');
+    await expect(columns.nth(1).locator('[inhouse-delta="total"]')).toHaveText('+$225,000');
+    await expect(columns.nth(1).locator('[fus-delta="total"]')).toHaveAttribute(
+      'data-delta',
+      'increase'
+    );
+
+    // The page keeps showing the live inputs
+    await expect(result(page, '[inhouse-value="total"]')).toHaveText('$846,173');
+  });
+
+  test('keeps scenarios across visits and limits the comparison to three', async ({ page }) => {
+    for (const name of ['One', 'Two', 'Three', 'Four']) await saveScenario(page, name);
+    await page.reload();
+
+    const items = page.locator('[bvb-scenario-item][data-scenario-clone]');
+    await expect(items).toHaveCount(4);
+    await expect(page.locator('[bvb-scenario][data-scenario-clone]')).toHaveCount(3);
+    await expect(items.nth(0).locator('[bvb-scenario-toggle]')).toBeDisabled();
+
+    // Re-rendering replaces the item, so click rather than uncheck()
+    await items.nth(1).locator('[bvb-scenario-toggle]').click();
+    await expect(page.locator('[bvb-scenario][data-scenario-clone]')).toHaveCount(2);
+
+    await items.nth(3).locator('[bvb-scenario-delete]').click();
+    await expect(items).toHaveCount(3);
+    await expect(page.locator('[bvb-scenario][data-scenario-clone]')).toHaveCount(1);
+  });
+});
+
+test.describe('lead gate', () => {
+  // The fixture has no lead form, as it would gate every other test
+  const GATE_MARKUP = `
+    <form bvb-lead-form onsubmit="event.preventDefault()">
+      <input name="email" value="visitor@example.com" />
+      <button type="submit">Unlock</button>
+    </form>
+    <div bvb-chart="cumulative"></div>
+    <a href="#" bvb-export="csv">Download CSV</a>
+  `;
+
+  test.beforeEach(async ({ page }) => {
+    await page.route('**/fixtures/calculator.html', async (route) => {
+      const response = await route.fetch();
+      const body = (await response.text()).replace('</body>', `${GATE_MARKUP}</body>`);
+      await route.fulfill({ response, body });
+    });
+    await page.goto('/fixtures/calculator.html');
+  });
+
+  test('gates the breakdown and exports until the form is submitted', async ({ page }) => {
+    const exportButton = page.locator('[bvb-export="csv"]');
+    let downloads = 0;
+    page.on('download', () => {
+      downloads += 1;
+    });
+
+    await expect(row(page, '[fus-value="licensing"]')).toHaveClass(/bvb-gated/);
+    await expect(page.locator('[bvb-chart="cumulative"]')).toHaveClass(/bvb-gated/);
+    await expect(page.locator('#security-binding')).toHaveClass(/bvb-gated/);
+    await expect(page.locator('#timeline-binding')).not.toHaveClass(/bvb-gated/);
+    await expect(exportButton).toHaveAttribute('aria-disabled', 'true');
+    await exportButton.click();
+
+    await page.locator('form[bvb-lead-form] button').click();
+    await expect(row(page, '[fus-value="licensing"]')).not.toHaveClass(/bvb-gated/);
+    await expect(exportButton).not.toHaveAttribute('aria-disabled');
+
+    const download = page.waitForEvent('download');
+    await exportButton.click();
+    expect((await download).suggestedFilename()).toBe('fusionauth-build-vs-buy.csv');
+    // Only the click after unlocking exported
+    expect(downloads).toBe(1);
+  });
+});
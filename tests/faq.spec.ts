@@ -0,0 +1,110 @@
+import { expect, type Page, test } from '@playwright/test';
+
+/**
+ * E2E tests for the FAQ search against `tests/fixtures/faq.html`.
+ * The page clock is faked so the 200ms search debounce can be stepped through.
+ */
+const SEARCH_DEBOUNCE_MS = 200;
+
+test.beforeEach(async ({ page }) => {
+  await page.clock.install({ time: new Date('2025-01-01T08:00:00') });
+  await page.goto('/fixtures/faq.html');
+  // The installed clock keeps running until paused
+  await page.clock.pauseAt(new Date('2025-01-01T09:00:00'));
+});
+
+test.describe('FAQ search', () => {
+  test('highlights matches and opens the best one', async ({ page }) => {
+    const item = page.locator('.bvb-faq-item').first();
+    const question = item.locator('.bvb-faq-item_question');
+    await expect(question).toHaveAttribute('aria-expanded', 'false');
+    await expect(item.locator('.faq-item_rich-text')).toBeHidden();
+
+    await page.locator('[faq-search]').fill('saml');
+    await page.clock.runFor(SEARCH_DEBOUNCE_MS);
+
+    await expect(item.locator('mark.faq-search-highlight').first()).toHaveText('SAML');
+    await expect(question).toHaveAttribute('aria-expanded', 'true');
+    await expect(item.locator('.faq-item_rich-text')).toBeVisible();
+    await expect(page.locator('.bvb-faq-item').nth(1)).not.toHaveClass(/is-open/);
+  });
+
+  test('closes search-opened items and clears highlights when emptied', async ({ page }) => {
+    const input = page.locator('[faq-search]');
+    const item = page.locator('.bvb-faq-item').first();
+
+    await input.fill('saml');
+    await page.clock.runFor(SEARCH_DEBOUNCE_MS);
+    await expect(item).toHaveClass(/is-open/);
+
+    await input.fill('');
+    await page.clock.runFor(SEARCH_DEBOUNCE_MS);
+    await expect(item).not.toHaveClass(/is-open/);
+    await expect(page.locator('mark.faq-search-highlight')).toHaveCount(0);
+  });
+
+  test('waits for typing to settle before searching', async ({ page }) => {
+    const input = page.locator('[faq-search]');
+    const highlights = page.locator('mark.faq-search-highlight');
+
+    await input.pressSequentially('self');
+    await page.clock.runFor(SEARCH_DEBOUNCE_MS - 50);
+    await expect(highlights).toHaveCount(0);
+
+    // Every keystroke restarts the wait
+    await input.press('-');
+    await page.clock.runFor(SEARCH_DEBOUNCE_MS - 50);
+    await expect(highlights).toHaveCount(0);
+
+    await page.clock.runFor(50);
+    await expect(highlights.first()).toBeVisible();
+    await expect(page.locator('.bvb-faq-item').nth(1)).toHaveClass(/is-open/);
+  });
+
+  test('keeps items opened by the visitor', async ({ page }) => {
+    const item = page.locator('.bvb-faq-item').nth(2);
+    await item.locator('.bvb-faq-item_question').click();
+    await expect(item).toHaveClass(/is-open/);
+
+    const input = page.locator('[faq-search]');
+    await input.fill('pricing');
+    await page.clock.runFor(SEARCH_DEBOUNCE_MS);
+    await input.fill('');
+    await page.clock.runFor(SEARCH_DEBOUNCE_MS);
+
+    await expect(item).toHaveClass(/is-open/);
+  });
+});
+
+test.describe('FAQ deep links', () => {
+  // Loads the page as a visitor following a deep link. Without the detour a hash-only navigation
+  // stays on the open page and only fires `hashchange`, which is covered separately.
+  const loadWithHash = async (page: Page, hash: string) => {
+    await page.goto('about:blank');
+    await page.goto(`/fixtures/faq.html${hash}`);
+  };
+
+  test('opens the linked item', async ({ page }) => {
+    await loadWithHash(page, '#faq-how-is-pricing-calculated');
+    await expect(page.locator('.bvb-faq-item').nth(2)).toHaveClass(/is-open/);
+  });
+
+  test('opens the linked item when the hash changes', async ({ page }) => {
+    const item = page.locator('.bvb-faq-item').nth(1);
+    await expect(item).not.toHaveClass(/is-open/);
+
+    await page.evaluate(() => {
+      window.location.hash = '#faq-can-i-self-host-fusionauth';
+    });
+    await expect(item).toHaveClass(/is-open/);
+  });
+
+  test('ignores a malformed hash and keeps search working', async ({ page }) => {
+    await loadWithHash(page, '#%E0%A4%A');
+    await expect(page.locator('.bvb-faq-item.is-open')).toHaveCount(0);
+
+    await page.locator('[faq-search]').fill('saml');
+    await page.clock.runFor(SEARCH_DEBOUNCE_MS);
+    await expect(page.locator('.bvb-faq-item').first()).toHaveClass(/is-open/);
+  });
+});
@@ -0,0 +1,80 @@
+import { expect, test } from '@playwright/test';
+
+import {
+  createBindingModel,
+  evaluateCondition,
+  formatDelta,
+  formatValue,
+  resolvePath,
+} from '../../src/buildvsbuy/bindings';
+import { evaluateScenario } from '../../src/buildvsbuy/engine';
+
+/**
+ * The parts of the `bvb-bind` / `bvb-show-if` engine that don't touch the DOM.
+ */
+const { state, costs, projection } = evaluateScenario({ hasExistingAuth: true, userGrowth: 10 });
+const model = createBindingModel(state, costs, projection);
+
+test.describe('resolvePath', () => {
+  test('walks inputs, costs and break-even years', () => {
+    expect(resolvePath(model, 'engineers')).toBe(3);
+    expect(resolvePath(model, 'build.oneTimeTransition')).toBe(50000);
+    expect(resolvePath(model, 'breakEvenYear.build')).toBe(1);
+    expect(resolvePath(model, 'saas.plan.name')).toBe('Essentials');
+  });
+
+  test('is undefined for missing and inherited properties', () => {
+    expect(resolvePath(model, 'saas.plan.price')).toBeUndefined();
+    expect(resolvePath(model, 'build.missing')).toBeUndefined();
+    expect(resolvePath(model, 'build.total.toFixed')).toBeUndefined();
+    expect(resolvePath(model, 'constructor')).toBeUndefined();
+  });
+});
+
+test.describe('evaluateCondition', () => {
+  test('checks truthiness and negation', () => {
+    expect(evaluateCondition(model, 'hasExistingAuth')).toBe(true);
+    expect(evaluateCondition(model, '!hasExistingAuth')).toBe(false);
+    expect(evaluateCondition(model, 'saas.plan')).toBe(true);
+    expect(evaluateCondition(model, 'build.missing')).toBe(false);
+  });
+
+  test('compares with literals and other paths', () => {
+    expect(evaluateCondition(model, 'userGrowth > 0')).toBe(true);
+    expect(evaluateCondition(model, 'engineers >= 4')).toBe(false);
+    expect(evaluateCondition(model, 'timeline == 3')).toBe(true);
+    expect(evaluateCondition(model, 'hasExistingAuth != false')).toBe(true);
+    expect(evaluateCondition(model, 'build.total > fusionauth.total')).toBe(true);
+  });
+
+  test('combines clauses, && binding tighter than ||', () => {
+    expect(evaluateCondition(model, 'engineers > 5 || hasExistingAuth && timeline == 3')).toBe(
+      true
+    );
+    expect(evaluateCondition(model, 'engineers > 5 && hasExistingAuth || timeline > 5')).toBe(
+      false
+    );
+  });
+});
+
+test.describe('formatValue', () => {
+  test('applies the declared format', () => {
+    expect(formatValue(1234.5, 'currency')).toBe('$1,235');
+    expect(formatValue(12000, 'number')).toBe('12,000');
+    expect(formatValue(10, 'percent')).toBe('10%');
+    expect(formatValue(1, 'years')).toBe('1 year');
+    expect(formatValue(3, 'years')).toBe('3 years');
+  });
+
+  test('shows text as is and the fallback for missing values', () => {
+    expect(formatValue('Essentials', 'currency')).toBe('Essentials');
+    expect(formatValue(null, 'number', 'N/A')).toBe('N/A');
+    expect(formatValue(undefined, null)).toBe('');
+  });
+
+  test('signs deltas', () => {
+    expect(formatDelta(2500, 'currency')).toBe('+$2,500');
+    expect(formatDelta(-2500, 'currency')).toBe('-$2,500');
+    expect(formatDelta(0, 'currency')).toBe('$0');
+  });
+});
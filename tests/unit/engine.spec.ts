@@ -0,0 +1,311 @@
+import { expect, test } from '@playwright/test';
+
+import {
+  clampCalculatorState,
+  DEFAULT_CALCULATOR_STATE,
+  evaluateScenario,
+  InvalidScenarioError,
+  normalizePricingConfig,
+  scoreAssessment,
+  validateCalculatorState,
+} from '../../src/buildvsbuy/engine';
+
+/**
+ * Formula tests for the DOM-free cost engine. They don't need a browser, run them with
+ * `pnpm test:unit`. Expected values are worked out by hand from the default pricing model,
+ * where the loaded salary of a $150,000 engineer is $225,000.
+ */
+test.describe('evaluateScenario', () => {
+  test('prices the default scenario', () => {
+    const { state, costs } = evaluateScenario();
+
+    expect(state).toEqual(DEFAULT_CALCULATOR_STATE);
+    expect(costs.build).toEqual({
+      total: 621173,
+      initialDevelopment: 337500,
+      ongoingMaintenance: 25313,
+      securityAndCompliance: 240000,
+      opportunityCost: 18360,
+      oneTimeTransition: 0,
+    });
+    expect(costs.saas).toEqual({
+      total: 220500,
+      userLicensing: 18000,
+      integrationWork: 168750,
+      ongoingSupport: 33750,
+      migrationCost: 0,
+      plan: { id: 'essentials', name: 'Essentials' },
+    });
+    expect(costs.fusionauth).toEqual({
+      total: 44078,
+      licensing: 8640,
+      integration: 27000,
+      maintenance: 8438,
+      plan: { id: 'starter', name: 'Starter' },
+    });
+    expect(costs.savingsVsBuild).toBe(621173 - 44078);
+  });
+
+  test('replaces the build with a transition when auth already exists', () => {
+    const { costs } = evaluateScenario({ hasExistingAuth: true });
+
+    expect(costs.build).toEqual({
+      total: 50000 + 3 * 85000,
+      initialDevelopment: 50000,
+      ongoingMaintenance: 3 * 85000,
+      securityAndCompliance: 0,
+      opportunityCost: 0,
+      oneTimeTransition: 50000,
+    });
+    expect(costs.saas.migrationCost).toBe(100000);
+    expect(costs.saas.integrationWork).toBe(168750 + 100000);
+    expect(costs.fusionauth.total).toBe(44078);
+  });
+
+  test('bills no licensing without users', () => {
+    const { costs } = evaluateScenario({ users: 0 });
+
+    expect(costs.saas.userLicensing).toBe(0);
+    expect(costs.fusionauth.licensing).toBe(0);
+    expect(costs.fusionauth.total).toBe(27000 + 8438);
+  });
+
+  test('scales security and compliance with the assessment multiplier', () => {
+    const { costs } = evaluateScenario({ complianceMultiplier: 1.5 });
+
+    expect(costs.build.securityAndCompliance).toBe(360000);
+  });
+
+  test('picks the default plan for the MAU', () => {
+    const small = evaluateScenario({ users: 500 }).costs;
+    expect(small.fusionauth.plan).toEqual({ id: 'community', name: 'Community' });
+    expect(small.fusionauth.licensing).toBe(0);
+    expect(small.saas.plan).toEqual({ id: 'free', name: 'Free' });
+
+    // The Starter minimum of 5,000 users applies just above the Community limit
+    expect(evaluateScenario({ users: 2000 }).costs.fusionauth.licensing).toBe(4320);
+  });
+
+  test('discounts large volumes instead of billing the flat rate', () => {
+    const { costs } = evaluateScenario({ users: 2000000 });
+
+    expect(costs.fusionauth.plan).toEqual({ id: 'enterprise', name: 'Enterprise' });
+    // (1M at 40% + 1M at 15% of $0.024) per month, over 3 years
+    expect(costs.fusionauth.licensing).toBe(475200);
+    expect(costs.saas.plan).toEqual({ id: 'enterprise', name: 'Enterprise' });
+    // (1M at 70% + 1M at 30% of $0.05) per month, over 3 years
+    expect(costs.saas.userLicensing).toBe(1800000);
+    expect(costs.fusionauth.licensing).toBeLessThan(2000000 * 0.024 * 12 * 3);
+  });
+
+  test('prices the default tiers from the per-user rates', () => {
+    const pricing = normalizePricingConfig({
+      saas: { perUserMonthly: 0.1 },
+      fusionauth: { perUserMonthly: 0.048 },
+    });
+    const { costs } = evaluateScenario({}, pricing);
+
+    expect(costs.saas.plan).toEqual({ id: 'essentials', name: 'Essentials' });
+    expect(costs.saas.userLicensing).toBe(36000);
+    expect(costs.fusionauth.plan).toEqual({ id: 'starter', name: 'Starter' });
+    expect(costs.fusionauth.licensing).toBe(17280);
+  });
+
+  test('falls back to the flat rate when plans are cleared', () => {
+    const pricing = normalizePricingConfig({ fusionauth: { plans: [] } });
+    const { costs } = evaluateScenario({ users: 2000000 }, pricing);
+
+    expect(costs.fusionauth.plan).toBeNull();
+    expect(costs.fusionauth.licensing).toBe(2000000 * 0.024 * 12 * 3);
+  });
+
+  test('drops brackets with an invalid limit', () => {
+    const pricing = normalizePricingConfig({
+      fusionauth: {
+        plans: [
+          {
+            id: 'tiered',
+            brackets: [{ upTo: 'lots', perUserMonthly: 0 }, { perUserMonthly: 0.01 }],
+          },
+        ],
+      },
+    });
+
+    expect(pricing.fusionauth.plans?.[0].brackets).toEqual([{ upTo: null, perUserMonthly: 0.01 }]);
+  });
+
+  test('uses the cheapest qualifying plan', () => {
+    const pricing = normalizePricingConfig({
+      fusionauth: {
+        plans: [
+          // $100 a month for 10,000 users
+          { id: 'metered', name: 'Metered', brackets: [{ perUserMonthly: 0.01 }] },
+          { id: 'growth', name: 'Growth', monthlyMinimum: 60, brackets: [{ perUserMonthly: 0 }] },
+          // Cheapest of all, but capped below 10,000 users
+          { id: 'starter', name: 'Starter', maxUsers: 5000, monthlyMinimum: 10, brackets: [] },
+        ],
+      },
+    });
+    const { costs } = evaluateScenario({}, pricing);
+
+    expect(costs.fusionauth.plan).toEqual({ id: 'growth', name: 'Growth' });
+    expect(costs.fusionauth.licensing).toBe(60 * 12 * 3);
+
+    const small = evaluateScenario({ users: 5000 }, pricing).costs.fusionauth;
+    expect(small.plan).toEqual({ id: 'starter', name: 'Starter' });
+  });
+});
+
+test.describe('timeline', () => {
+  test('a zero-year timeline only counts one-time costs', () => {
+    const { costs, projection } = evaluateScenario({ timeline: 0 });
+
+    expect(costs.build.total).toBe(337500);
+    expect(costs.saas.total).toBe(168750);
+    expect(costs.fusionauth.total).toBe(27000);
+    expect(projection.years).toEqual([]);
+    expect(projection.breakEvenYear).toEqual({ build: null, saas: null });
+  });
+
+  test('projects only complete years', () => {
+    const { projection } = evaluateScenario({ timeline: 2.5 });
+
+    expect(projection.years.map(({ year }) => year)).toEqual([1, 2]);
+  });
+
+  test('keeps one-time costs in the first year', () => {
+    const { costs, projection } = evaluateScenario();
+    const [first, second, third] = projection.years;
+
+    expect(first.costs.fusionauth).toBe(27000 + 2880 + 2813);
+    // $2,812.50 of maintenance a year is only rounded in the running total
+    expect(second.cumulative.fusionauth).toBe(27000 + 2 * 2880 + 5625);
+    expect(second.costs.fusionauth).toBe(2880 + 2812);
+    expect(third.cumulative.build).toBe(costs.build.total);
+    expect(projection.breakEvenYear).toEqual({ build: 1, saas: 1 });
+  });
+
+  test('grows users and salaries year over year', () => {
+    const { projection } = evaluateScenario({ userGrowth: 10, salaryInflation: 5 });
+
+    expect(projection.years.map(({ users }) => users)).toEqual([10000, 11000, 12100]);
+    expect(projection.years.map(({ salary }) => salary)).toEqual([150000, 157500, 165375]);
+  });
+
+  test('ends on the headline totals', () => {
+    [{}, { userGrowth: 50, salaryInflation: 7 }, { timeline: 5, userGrowth: -20 }].forEach(
+      (input) => {
+        const { costs, projection } = evaluateScenario(input);
+        const { cumulative } = projection.years[projection.years.length - 1];
+
+        expect(cumulative).toEqual({
+          build: costs.build.total,
+          saas: costs.saas.total,
+          fusionauth: costs.fusionauth.total,
+        });
+      }
+    );
+  });
+
+  test('prices growth and inflation into the totals', () => {
+    const flat = evaluateScenario().costs;
+    const { costs } = evaluateScenario({ userGrowth: 10, salaryInflation: 5 });
+
+    expect(costs.build.initialDevelopment).toBe(flat.build.initialDevelopment);
+    expect(costs.build.ongoingMaintenance).toBeGreaterThan(flat.build.ongoingMaintenance);
+    // 10,000, 11,000 and 12,100 users at $0.05
+    expect(costs.saas.userLicensing).toBe(Math.round((10000 + 11000 + 12100) * 0.05 * 12));
+  });
+});
+
+test.describe('validation', () => {
+  test('accepts partial input', () => {
+    expect(validateCalculatorState({ engineers: 5 })).toEqual([]);
+    expect(evaluateScenario({ engineers: 5 }).state.engineers).toBe(5);
+  });
+
+  test('reports every invalid field', () => {
+    const issues = validateCalculatorState({
+      engineers: -1,
+      salary: Number.NaN,
+      users: '10000',
+      userGrowth: -150,
+      hasExistingAuth: 'yes',
+    });
+
+    expect(issues.map(({ field }) => field).sort()).toEqual([
+      'engineers',
+      'hasExistingAuth',
+      'salary',
+      'userGrowth',
+      'users',
+    ]);
+  });
+
+  test('rejects input that is not an object', () => {
+    expect(validateCalculatorState(null)).toEqual([{ field: null, message: 'must be an object' }]);
+  });
+
+  test('throws instead of pricing an invalid scenario', () => {
+    expect(() => evaluateScenario({ timeline: -1 })).toThrow(InvalidScenarioError);
+    expect(() => evaluateScenario({ timeline: Infinity })).toThrow('timeline must be a finite');
+  });
+
+  test('rejects timelines too long to project', () => {
+    expect(validateCalculatorState({ timeline: 30 })).toEqual([]);
+    expect(validateCalculatorState({ timeline: 1e9 })).toEqual([
+      { field: 'timeline', message: 'must be at most 30' },
+    ]);
+    expect(() => evaluateScenario({ timeline: 1e9 })).toThrow(InvalidScenarioError);
+  });
+
+  test('clamps page input into range instead of throwing', () => {
+    const state = clampCalculatorState({
+      ...DEFAULT_CALCULATOR_STATE,
+      engineers: -2,
+      salary: Number.NaN,
+      userGrowth: -150,
+      salaryInflation: -20,
+      timeline: 1e9,
+    });
+
+    expect(state).toEqual({
+      ...DEFAULT_CALCULATOR_STATE,
+      engineers: 0,
+      timeline: 30,
+      userGrowth: -100,
+      salaryInflation: -20,
+    });
+    expect(validateCalculatorState(state)).toEqual([]);
+  });
+});
+
+test.describe('scoreAssessment', () => {
+  // Yes/no steps score like the legacy five-question assessment
+  const question = (id: string) => ({
+    id,
+    weight: 1,
+    options: [
+      { value: 'yes', scores: { fusionauth: 1, saas: 0.7, build: 0 }, links: null },
+      { value: 'no', scores: { fusionauth: 0, saas: 0.7, build: 1 }, links: null },
+    ],
+    scale: null,
+  });
+
+  test('follows the yes/no thresholds', () => {
+    const questions = ['a', 'b', 'c', 'd', 'e'].map(question);
+    const answers = (yes: number) =>
+      Object.fromEntries(questions.map(({ id }, i) => [id, i < yes ? 'yes' : 'no']));
+
+    expect(scoreAssessment(questions, answers(4)).recommendation).toBe('fusionauth');
+    expect(scoreAssessment(questions, answers(2)).recommendation).toBe('saas');
+    expect(scoreAssessment(questions, answers(0)).recommendation).toBe('build');
+  });
+
+  test('is incomplete until every question is answered', () => {
+    const result = scoreAssessment([question('a'), question('b')], { a: 'yes', b: null });
+
+    expect(result.completed).toBe(false);
+    expect(result.answeredCount).toBe(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { expect, test } from '@playwright/test';
+
+import {
+  createSearchDocument,
+  matchTerm,
+  parseQuery,
+  scoreDocument,
+  searchDocuments,
+} from '../../src/faq/search';
+
+/**
+ * The FAQ search engine: tokenizing, typo tolerance and ranking. None of it touches the DOM.
+ */
+test.describe('parseQuery', () => {
+  test('folds accents, stems and drops duplicate terms', () => {
+    expect(parseQuery('Passwords  PASSWORD Vérifié')).toEqual(['password', 'verifie']);
+  });
+
+  test('reads quotes and dashes as word separators, not phrase or negation syntax', () => {
+    expect(parseQuery('"single sign-on" -saml')).toEqual(['single', 'sign', 'on', 'saml']);
+  });
+
+  test('has no terms without words', () => {
+    expect(parseQuery('  ?! ')).toEqual([]);
+  });
+});
+
+test.describe('matchTerm', () => {
+  test('prefers exact words over prefixes over typos', () => {
+    expect(matchTerm('password', 'password')).toBe(1);
+    expect(matchTerm('pass', 'password')).toBe(0.75);
+    expect(matchTerm('pasword', 'password')).toBe(0.5);
+  });
+
+  test('tolerates a single typo, including swapped letters', () => {
+    expect(matchTerm('passwrod', 'password')).toBe(0.5);
+    expect(matchTerm('pasword', 'passport')).toBe(0);
+  });
+
+  test('keeps long words from matching different words two edits away', () => {
+    expect(matchTerm('password', 'passport')).toBe(0);
+    expect(matchTerm('authentication', 'authorization')).toBe(0);
+  });
+
+  test('needs short words to match exactly or as a prefix', () => {
+    expect(matchTerm('sso', 'ssa')).toBe(0);
+    expect(matchTerm('ss', 'sso')).toBe(0.75);
+    expect(matchTerm('s', 'sso')).toBe(0);
+  });
+});
+
+test.describe('ranking', () => {
+  const docs = [
+    createSearchDocument('How is pricing calculated?', 'Plans are billed per user and SAML.'),
+    createSearchDocument('Does FusionAuth support SAML?', 'Yes, SAML and OIDC single sign-on.'),
+    createSearchDocument('Can I self-host?', 'Download it and run it anywhere.'),
+  ];
+
+  test('weights question titles over answers', () => {
+    expect(searchDocuments(docs, parseQuery('saml')).map(({ index }) => index)).toEqual([1, 0]);
+  });
+
+  test('requires every term to match', () => {
+    expect(scoreDocument(docs[1], parseQuery('saml oidc'))).toBeGreaterThan(0);
+    expect(scoreDocument(docs[0], parseQuery('saml oidc'))).toBe(0);
+  });
+
+  test('keeps document order for equal scores', () => {
+    const hits = searchDocuments([docs[2], docs[2]], parseQuery('anywhere'));
+    expect(hits.map(({ index }) => index)).toEqual([0, 1]);
+  });
+
+  test('finds nothing for an empty query', () => {
+    expect(searchDocuments(docs, [])).toEqual([]);
+  });
+});